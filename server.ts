@@ -1,15 +1,75 @@
+import 'dotenv/config';
 import express from 'express';
+import expressWebsockets from 'express-ws';
+import { Hocuspocus } from '@hocuspocus/server';
+import * as Y from 'yjs';
 import { createServer as createViteServer } from 'vite';
+import { getDocumentState, saveDocumentState } from './server/db';
+import { loadProject, projectAccess, verifyToken } from './server/auth';
+import { isDocumentEmpty, markdownToDocumentState } from './server/documentSeed';
+import { projectsRouter } from './server/projectsRouter';
+import { templatesRouter } from './server/templatesRouter';
 
 async function startServer() {
-  const app = express();
+  const { app } = expressWebsockets(express());
   const PORT = 3000;
 
+  // Realtime collaboration: one shared Y.Doc per project, persisted in SQLite.
+  // A fresh document is seeded from the Markdown snapshot in `projects/{id}`,
+  // and so is one that misses edits made while its editor was offline.
+  const hocuspocus = new Hocuspocus({
+    quiet: true,
+    // Same access as the database rules: owners and public editors write,
+    // public viewers only read
+    async onAuthenticate({ token, documentName, connectionConfig }) {
+      const uid = await verifyToken(token);
+      if (!uid) {
+        throw new Error('Not authenticated');
+      }
+      const project = await loadProject(documentName.replace(/^project-/, ''), token);
+      const access = projectAccess(project, uid);
+      if (!access) {
+        throw new Error('No access to this project');
+      }
+      connectionConfig.readOnly = access === 'view';
+      return { uid, content: project.content, offlineEditedAt: project.offlineEditedAt };
+    },
+    async onLoadDocument({ documentName, document, context }) {
+      const stored = getDocumentState(documentName);
+      const offlineEditedAt: number = context.offlineEditedAt ?? 0;
+      // Offline edits only reached the snapshot, which then replaces the stored
+      // state instead of being overwritten by it on the next edit
+      if (stored && stored.offlineEditedAt >= offlineEditedAt) {
+        Y.applyUpdate(document, stored.state);
+      }
+      // Seeded here rather than by clients, which would each insert a copy
+      if (isDocumentEmpty(document)) {
+        if (context.content) {
+          Y.applyUpdate(document, markdownToDocumentState(context.content));
+        }
+        // Keeps the heading ids assigned while seeding if the document is unloaded
+        // unedited, and records the offline edits it now includes
+        saveDocumentState(documentName, Y.encodeStateAsUpdate(document), offlineEditedAt);
+      }
+      return document;
+    },
+    async onStoreDocument({ documentName, document }) {
+      saveDocumentState(documentName, Y.encodeStateAsUpdate(document));
+    },
+  });
+
+  app.ws("/collaboration", (websocket, request) => {
+    hocuspocus.handleConnection(websocket, request);
+  });
+
   // API routes
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok" });
   });
 
+  app.use("/api/projects", projectsRouter);
+  app.use("/api/templates", templatesRouter);
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import * as store from './db';
+import type { Project } from '../src/types';
+
+// Same switch as `storageBackend` in src/lib/config.ts
+export const isSelfHosted = process.env.VITE_STORAGE_BACKEND === 'sqlite';
+
+const firebaseApiKey = process.env.VITE_FIREBASE_API_KEY;
+// Default database of the Firebase project, as picked by the client SDK
+const firebaseDatabaseUrl = `https://${process.env.VITE_FIREBASE_PROJECT_ID}-default-rtdb.firebaseio.com`;
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+// `local:<uid>:<secret>` from src/lib/identity.ts
+function verifyLocalToken(token: string): string | null {
+  const match = token.match(/^local:(local-[\w-]+):(.+)$/);
+  if (!match) return null;
+  const [, uid, secret] = match;
+  const hash = hashSecret(secret);
+  const known = store.claimLocalIdentity(uid, hash);
+  return crypto.timingSafeEqual(Buffer.from(known), Buffer.from(hash)) ? uid : null;
+}
+
+// Google checks the signature and expiry of the ID token
+async function verifyFirebaseToken(token: string): Promise<string | null> {
+  const response = await fetch(`https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=${firebaseApiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken: token }),
+  });
+  if (!response.ok) return null;
+  const data = await response.json();
+  return data.users?.[0]?.localId ?? null;
+}
+
+// Uid behind a bearer token, null when it is missing or invalid
+export async function verifyToken(token: string | null | undefined): Promise<string | null> {
+  if (!token) return null;
+  try {
+    return isSelfHosted ? verifyLocalToken(token) : await verifyFirebaseToken(token);
+  } catch (error) {
+    console.error("Error verifying token:", error);
+    return null;
+  }
+}
+
+// Firebase projects are read with the caller's token, so the database rules apply on top
+export async function loadProject(projectId: string, token: string): Promise<Project | null> {
+  if (isSelfHosted) return store.getProject(projectId);
+  const response = await fetch(`${firebaseDatabaseUrl}/projects/${encodeURIComponent(projectId)}.json?auth=${encodeURIComponent(token)}`);
+  return response.ok ? response.json() : null;
+}
+
+export type ProjectAccess = 'edit' | 'view' | null;
+
+// Mirrors the `projects/$projectId` rules in database.rules.json
+export function projectAccess(project: Project | null, uid: string): ProjectAccess {
+  if (!project) return null;
+  if (project.ownerId === uid || project.isPublicEdit) return 'edit';
+  return project.isPublicView ? 'view' : null;
+}
+
+// Express middleware: the caller's uid from the `Authorization: Bearer` header
+// goes to `res.locals.uid`, requests without a valid token get a 401
+export async function requireUser(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  const uid = await verifyToken(header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null);
+  if (!uid) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+  res.locals.uid = uid;
+  next();
+}
@@ -0,0 +1,194 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import type { Project, ProjectTemplate, ProjectVersion } from '../src/types';
+
+const DATABASE_PATH = process.env.DATABASE_PATH || 'data/notiont.db';
+
+fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+
+const db = new Database(DATABASE_PATH);
+db.pragma('journal_mode = WAL');
+
+// Records are stored as JSON so the shape always matches `src/types.ts`;
+// only the columns we query or sort by are extracted.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT,
+    last_modified INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS projects_owner_id ON projects (owner_id);
+
+  CREATE TABLE IF NOT EXISTS project_versions (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS project_versions_project_id ON project_versions (project_id);
+
+  CREATE TABLE IF NOT EXISTS collapsed_nodes (
+    user_id TEXT NOT NULL,
+    project_id TEXT NOT NULL,
+    node_ids TEXT NOT NULL,
+    PRIMARY KEY (user_id, project_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS templates (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    shared INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS templates_owner_id ON templates (owner_id);
+
+  CREATE TABLE IF NOT EXISTS documents (
+    name TEXT PRIMARY KEY,
+    state BLOB NOT NULL,
+    offline_edited_at INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS local_identities (
+    uid TEXT PRIMARY KEY,
+    secret_hash TEXT NOT NULL
+  );
+`);
+
+const statements = {
+  listProjects: db.prepare('SELECT data FROM projects WHERE owner_id = ? ORDER BY last_modified DESC'),
+  getProject: db.prepare('SELECT data FROM projects WHERE id = ?'),
+  upsertProject: db.prepare(`
+    INSERT INTO projects (id, owner_id, last_modified, data) VALUES (@id, @ownerId, @lastModified, @data)
+    ON CONFLICT (id) DO UPDATE SET owner_id = excluded.owner_id, last_modified = excluded.last_modified, data = excluded.data
+  `),
+  deleteProject: db.prepare('DELETE FROM projects WHERE id = ?'),
+  listVersions: db.prepare('SELECT data FROM project_versions WHERE project_id = ? ORDER BY timestamp DESC'),
+  getVersion: db.prepare('SELECT data FROM project_versions WHERE id = ? AND project_id = ?'),
+  upsertVersion: db.prepare(`
+    INSERT INTO project_versions (id, project_id, timestamp, data) VALUES (@id, @projectId, @timestamp, @data)
+    ON CONFLICT (id) DO UPDATE SET timestamp = excluded.timestamp, data = excluded.data
+  `),
+  deleteVersion: db.prepare('DELETE FROM project_versions WHERE id = ? AND project_id = ?'),
+  deleteVersions: db.prepare('DELETE FROM project_versions WHERE project_id = ?'),
+  getCollapsedNodes: db.prepare('SELECT node_ids FROM collapsed_nodes WHERE user_id = ? AND project_id = ?'),
+  upsertCollapsedNodes: db.prepare(`
+    INSERT INTO collapsed_nodes (user_id, project_id, node_ids) VALUES (?, ?, ?)
+    ON CONFLICT (user_id, project_id) DO UPDATE SET node_ids = excluded.node_ids
+  `),
+  deleteCollapsedNodes: db.prepare('DELETE FROM collapsed_nodes WHERE project_id = ?'),
+  listTemplates: db.prepare('SELECT data FROM templates WHERE owner_id = ? OR shared = 1'),
+  getTemplate: db.prepare('SELECT data FROM templates WHERE id = ?'),
+  upsertTemplate: db.prepare(`
+    INSERT INTO templates (id, owner_id, shared, data) VALUES (@id, @ownerId, @shared, @data)
+    ON CONFLICT (id) DO UPDATE SET owner_id = excluded.owner_id, shared = excluded.shared, data = excluded.data
+  `),
+  deleteTemplate: db.prepare('DELETE FROM templates WHERE id = ?'),
+  getDocument: db.prepare('SELECT state, offline_edited_at FROM documents WHERE name = ?'),
+  upsertDocument: db.prepare(`
+    INSERT INTO documents (name, state, offline_edited_at) VALUES (?, ?, ?)
+    ON CONFLICT (name) DO UPDATE SET
+      state = excluded.state,
+      offline_edited_at = COALESCE(excluded.offline_edited_at, offline_edited_at)
+  `),
+  deleteDocument: db.prepare('DELETE FROM documents WHERE name = ?'),
+  getLocalIdentity: db.prepare('SELECT secret_hash FROM local_identities WHERE uid = ?'),
+  insertLocalIdentity: db.prepare('INSERT OR IGNORE INTO local_identities (uid, secret_hash) VALUES (?, ?)'),
+};
+
+export function listProjects(ownerId: string): Project[] {
+  return statements.listProjects.all(ownerId).map((row: { data: string }) => JSON.parse(row.data));
+}
+
+export function getProject(id: string): Project | null {
+  const row = statements.getProject.get(id);
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function saveProject(project: Project) {
+  statements.upsertProject.run({
+    id: project.id,
+    ownerId: project.ownerId ?? null,
+    lastModified: project.lastModified,
+    data: JSON.stringify(project),
+  });
+}
+
+export const deleteProject = db.transaction((id: string, documentName: string) => {
+  statements.deleteVersions.run(id);
+  statements.deleteCollapsedNodes.run(id);
+  statements.deleteDocument.run(documentName);
+  statements.deleteProject.run(id);
+});
+
+export function listVersions(projectId: string): ProjectVersion[] {
+  return statements.listVersions.all(projectId).map((row: { data: string }) => JSON.parse(row.data));
+}
+
+export function getVersion(projectId: string, versionId: string): ProjectVersion | null {
+  const row = statements.getVersion.get(versionId, projectId);
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function saveVersion(version: ProjectVersion) {
+  statements.upsertVersion.run({
+    id: version.id,
+    projectId: version.projectId,
+    timestamp: version.timestamp,
+    data: JSON.stringify(version),
+  });
+}
+
+export function deleteVersion(projectId: string, versionId: string) {
+  statements.deleteVersion.run(versionId, projectId);
+}
+
+export function getCollapsedNodes(userId: string, projectId: string): string[] {
+  const row = statements.getCollapsedNodes.get(userId, projectId);
+  return row ? JSON.parse(row.node_ids) : [];
+}
+
+export function saveCollapsedNodes(userId: string, projectId: string, nodeIds: string[]) {
+  statements.upsertCollapsedNodes.run(userId, projectId, JSON.stringify(nodeIds));
+}
+
+export function listTemplates(ownerId: string): ProjectTemplate[] {
+  return statements.listTemplates.all(ownerId).map((row: { data: string }) => JSON.parse(row.data));
+}
+
+export function getTemplate(id: string): ProjectTemplate | null {
+  const row = statements.getTemplate.get(id);
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function saveTemplate(template: ProjectTemplate) {
+  statements.upsertTemplate.run({
+    id: template.id,
+    ownerId: template.ownerId,
+    shared: template.shared ? 1 : 0,
+    data: JSON.stringify(template),
+  });
+}
+
+export function deleteTemplate(id: string) {
+  statements.deleteTemplate.run(id);
+}
+
+// `offlineEditedAt` is the project's `offlineEditedAt` the state was last seeded
+// with: later offline edits are only in the Markdown snapshot
+export function getDocumentState(name: string): { state: Uint8Array; offlineEditedAt: number } | null {
+  const row = statements.getDocument.get(name);
+  return row ? { state: new Uint8Array(row.state), offlineEditedAt: row.offline_edited_at ?? 0 } : null;
+}
+
+// Without `offlineEditedAt` the stored one is kept
+export function saveDocumentState(name: string, state: Uint8Array, offlineEditedAt?: number) {
+  statements.upsertDocument.run(name, Buffer.from(state), offlineEditedAt ?? null);
+}
+
+// Hash of the secret a self-hosted identity is bound to; the first one stored wins
+export function claimLocalIdentity(uid: string, secretHash: string): string {
+  statements.insertLocalIdentity.run(uid, secretHash);
+  return statements.getLocalIdentity.get(uid).secret_hash;
+}
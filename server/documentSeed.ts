@@ -0,0 +1,99 @@
+import { Window } from 'happy-dom';
+import { Editor } from '@tiptap/core';
+import { StarterKit } from '@tiptap/starter-kit';
+import { Image } from '@tiptap/extension-image';
+import { TableRow } from '@tiptap/extension-table-row';
+import { TableCell } from '@tiptap/extension-table-cell';
+import { TableHeader } from '@tiptap/extension-table-header';
+import { Markdown } from 'tiptap-markdown';
+import type { Transaction } from '@tiptap/pm/state';
+import { prosemirrorToYXmlFragment } from '@tiptap/y-tiptap';
+import * as Y from 'yjs';
+import BarChartExtension from '../src/components/extensions/BarChartExtension';
+import CodeBlockExtension from '../src/components/extensions/CodeBlockExtension';
+import HeadingExtension, { assignHeadingIds } from '../src/components/extensions/HeadingExtension';
+import CustomTable from '../src/components/extensions/TableExtension';
+import WikiLinkExtension from '../src/components/extensions/WikiLinkExtension';
+import { HeadingNode, parseMarkdownHeadings } from '../src/utils/markdownParser';
+
+// The schema part of the editor's extensions in src/components/Editor.tsx
+const extensions = [
+  StarterKit.configure({ codeBlock: false, heading: false, undoRedo: false }),
+  HeadingExtension,
+  Image,
+  CustomTable,
+  TableRow,
+  TableHeader,
+  TableCell,
+  Markdown,
+  BarChartExtension,
+  CodeBlockExtension,
+  WikiLinkExtension,
+];
+
+// Y.XmlFragment the Collaboration extension binds to
+const FRAGMENT_NAME = 'default';
+
+// tiptap-markdown parses through the DOM, which only exists for the duration of the call
+function withDom<T>(run: () => T): T {
+  const scope = globalThis as Record<string, unknown>;
+  const names = ['window', 'document', 'Node'];
+  const saved = names.map(name => scope[name]);
+  const window = new Window();
+  Object.assign(scope, { window, document: window.document, Node: window.Node });
+  try {
+    return run();
+  } finally {
+    names.forEach((name, index) => {
+      if (saved[index] === undefined) {
+        delete scope[name];
+      } else {
+        scope[name] = saved[index];
+      }
+    });
+    window.close();
+  }
+}
+
+// Headings without a `{#id}` get the slug the outline parser falls back to, so
+// search results, wiki links and backlinks resolve before the first local edit
+// writes the ids into the snapshot. Both parsers see the same top-level headings.
+function assignOutlineIds(tr: Transaction, markdown: string): Transaction {
+  const ids: string[] = [];
+  const collect = (node: HeadingNode) => node.children.forEach(child => {
+    ids.push(child.id);
+    collect(child);
+  });
+  collect(parseMarkdownHeadings(markdown));
+
+  let index = 0;
+  tr.doc.forEach((node, offset) => {
+    if (node.type.name !== 'heading') return;
+    const id = ids[index++];
+    if (!node.attrs.id && id) {
+      tr.setNodeMarkup(offset, undefined, { ...node.attrs, id });
+    }
+  });
+  return tr;
+}
+
+export const isDocumentEmpty = (document: Y.Doc) => document.getXmlFragment(FRAGMENT_NAME).length === 0;
+
+// Initial Yjs state of a project document, built from its Markdown snapshot.
+// Heading ids are assigned here so every client starts with the same ones.
+export function markdownToDocumentState(markdown: string): Uint8Array {
+  return withDom(() => {
+    const editor = new Editor({ element: null, extensions });
+    try {
+      editor.commands.setContent(markdown);
+      // No view is mounted, so the plugin that does this in the browser never runs;
+      // headings nested in lists or quotes are not in the outline and get random ids
+      const { doc } = assignHeadingIds(assignOutlineIds(editor.state.tr, markdown));
+      const document = new Y.Doc();
+      prosemirrorToYXmlFragment(doc, document.getXmlFragment(FRAGMENT_NAME));
+      return Y.encodeStateAsUpdate(document);
+    } finally {
+      editor.destroy();
+    }
+  });
+}
@@ -0,0 +1,174 @@
+import express from 'express';
+import * as store from './db';
+import { projectAccess, requireUser } from './auth';
+import type { Project, ProjectVersion } from '../src/types';
+
+// Must match `collaborationDocumentName` in src/lib/collaboration.ts
+export const projectDocumentName = (projectId: string) => `project-${projectId}`;
+
+// REST mirror of the Firebase paths `projects/` and `project_versions/`,
+// used by the frontend when VITE_STORAGE_BACKEND=sqlite. Access follows the
+// database rules, with the caller identified by `requireUser`.
+export const projectsRouter = express.Router();
+
+projectsRouter.use(express.json({ limit: '10mb' }));
+projectsRouter.use(requireUser);
+
+// The password never leaves the server, clients only learn that there is one
+function toResponse({ password, ...project }: Project): Project {
+  return password ? { ...project, hasPassword: true } : project;
+}
+
+// A body without `password` keeps the stored one, since responses never carry it
+function fromRequest(body: Project, id: string, existing: Project | null): Project {
+  const { hasPassword, ...project } = body;
+  return 'password' in project ? { ...project, id } : { ...project, id, password: existing?.password };
+}
+
+// `:id` if the caller may read it or, with `write`, change it; otherwise ends the request
+function findProject(req: express.Request, res: express.Response, level: 'read' | 'write'): Project | null {
+  const project = store.getProject(req.params.id);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return null;
+  }
+  const access = projectAccess(project, res.locals.uid);
+  if (!access || (level === 'write' && access !== 'edit')) {
+    res.status(403).json({ error: 'No access to this project' });
+    return null;
+  }
+  return project;
+}
+
+// Writes `body` as project `id`: new projects must belong to the caller,
+// existing ones keep their owner
+function writeProject(res: express.Response, id: string, body: Project): Project | null {
+  const existing = store.getProject(id);
+  const project = fromRequest(body, id, existing);
+  if (existing ? projectAccess(existing, res.locals.uid) !== 'edit' : project.ownerId !== res.locals.uid) {
+    res.status(403).json({ error: 'No access to this project' });
+    return null;
+  }
+  if (existing) {
+    project.ownerId = existing.ownerId;
+  }
+  store.saveProject(project);
+  return project;
+}
+
+projectsRouter.get('/', (req, res) => {
+  res.json(store.listProjects(res.locals.uid).map(toResponse));
+});
+
+projectsRouter.post('/', (req, res) => {
+  const project = writeProject(res, req.body.id || crypto.randomUUID(), req.body);
+  if (project) {
+    res.status(201).json(toResponse(project));
+  }
+});
+
+projectsRouter.get('/:id', (req, res) => {
+  const project = findProject(req, res, 'read');
+  if (project) {
+    res.json(toResponse(project));
+  }
+});
+
+projectsRouter.put('/:id', (req, res) => {
+  const project = writeProject(res, req.params.id, req.body);
+  if (project) {
+    res.json(toResponse(project));
+  }
+});
+
+projectsRouter.patch('/:id', (req, res) => {
+  const existing = findProject(req, res, 'write');
+  if (!existing) return;
+  const project = writeProject(res, existing.id, { ...existing, ...req.body });
+  if (project) {
+    res.json(toResponse(project));
+  }
+});
+
+// Only the owner deletes, public editors can move the project to the trash at most
+projectsRouter.delete('/:id', (req, res) => {
+  const project = store.getProject(req.params.id);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+  if (project.ownerId !== res.locals.uid) {
+    res.status(403).json({ error: 'No access to this project' });
+    return;
+  }
+  store.deleteProject(req.params.id, projectDocumentName(req.params.id));
+  res.status(204).end();
+});
+
+// Unlocks a password-protected public page
+projectsRouter.post('/:id/password', (req, res) => {
+  const project = findProject(req, res, 'read');
+  if (project) {
+    res.json({ valid: !!project.password && req.body.password === project.password });
+  }
+});
+
+projectsRouter.get('/:id/versions', (req, res) => {
+  if (findProject(req, res, 'read')) {
+    res.json(store.listVersions(req.params.id));
+  }
+});
+
+projectsRouter.post('/:id/versions', (req, res) => {
+  if (!findProject(req, res, 'write')) return;
+  const version: ProjectVersion = {
+    ...req.body,
+    id: req.body.id || crypto.randomUUID(),
+    projectId: req.params.id,
+  };
+  store.saveVersion(version);
+  res.status(201).json(version);
+});
+
+projectsRouter.patch('/:id/versions/:versionId', (req, res) => {
+  if (!findProject(req, res, 'write')) return;
+  const existing = store.getVersion(req.params.id, req.params.versionId);
+  if (!existing) {
+    res.status(404).json({ error: 'Version not found' });
+    return;
+  }
+  const version: ProjectVersion = { ...existing, ...req.body, id: existing.id, projectId: existing.projectId };
+  store.saveVersion(version);
+  res.json(version);
+});
+
+projectsRouter.delete('/:id/versions/:versionId', (req, res) => {
+  if (!findProject(req, res, 'write')) return;
+  store.deleteVersion(req.params.id, req.params.versionId);
+  res.status(204).end();
+});
+
+// Collapsed nodes are per user: only the caller's own entry of a project they
+// can read is readable and writable
+projectsRouter.get('/:id/collapsed/:uid', (req, res) => {
+  if (!findProject(req, res, 'read')) return;
+  if (req.params.uid !== res.locals.uid) {
+    res.status(403).json({ error: 'No access to this user' });
+    return;
+  }
+  res.json(store.getCollapsedNodes(req.params.uid, req.params.id));
+});
+
+projectsRouter.put('/:id/collapsed/:uid', (req, res) => {
+  if (!findProject(req, res, 'read')) return;
+  if (req.params.uid !== res.locals.uid) {
+    res.status(403).json({ error: 'No access to this user' });
+    return;
+  }
+  if (!Array.isArray(req.body)) {
+    res.status(400).json({ error: 'Expected an array of node ids' });
+    return;
+  }
+  store.saveCollapsedNodes(req.params.uid, req.params.id, req.body.map(String));
+  res.status(204).end();
+});
@@ -0,0 +1,37 @@
+import express from 'express';
+import * as store from './db';
+import { requireUser } from './auth';
+import type { ProjectTemplate } from '../src/types';
+
+// REST mirror of the Firebase path `templates/`; like the rules there, only
+// the author writes a template
+export const templatesRouter = express.Router();
+
+templatesRouter.use(express.json({ limit: '10mb' }));
+templatesRouter.use(requireUser);
+
+// The caller's templates plus every shared one
+templatesRouter.get('/', (req, res) => {
+  res.json(store.listTemplates(res.locals.uid));
+});
+
+templatesRouter.put('/:id', (req, res) => {
+  const existing = store.getTemplate(req.params.id);
+  if (req.body.ownerId !== res.locals.uid || (existing && existing.ownerId !== res.locals.uid)) {
+    res.status(403).json({ error: 'No access to this template' });
+    return;
+  }
+  const template: ProjectTemplate = { ...req.body, id: req.params.id, shared: !!req.body.shared };
+  store.saveTemplate(template);
+  res.json(template);
+});
+
+templatesRouter.delete('/:id', (req, res) => {
+  const existing = store.getTemplate(req.params.id);
+  if (existing && existing.ownerId !== res.locals.uid) {
+    res.status(403).json({ error: 'No access to this template' });
+    return;
+  }
+  store.deleteTemplate(req.params.id);
+  res.status(204).end();
+});
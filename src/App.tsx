@@ -1,64 +1,182 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { HashRouter, Routes, Route, useNavigate, useParams } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { HashRouter, Routes, Route, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import Dashboard from './components/Dashboard';
 import Editor from './components/Editor';
 import PublicViewer from './components/PublicViewer';
-import { Project, ProjectType } from './types';
+import MindmapPane from './components/MindmapPane';
+import { Project, ProjectTemplate, ProjectType, ProjectVersion } from './types';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import Login from './components/Login';
-import { database, auth as firebaseAuth } from './lib/firebase';
-import { ref, onValue, set, push, remove, query, orderByChild, equalTo, update } from 'firebase/database';
+import { ProjectRepositoryProvider, useProjectRepository } from './contexts/ProjectRepositoryContext';
+import { ProjectRepository, createDefaultProjectRepository } from './repositories';
+import { useProjectSearch } from './hooks/useProjectSearch';
+import { findExpiredTrash } from './utils/projectOrganization';
+import { applyTemplate } from './utils/projectTemplates';
+import { trashRetentionDays } from './lib/config';
+
+const defaultProjectRepository = createDefaultProjectRepository();
 
 function DashboardWrapper() {
   const { user } = useAuth();
+  const repository = useProjectRepository();
   const navigate = useNavigate();
   const [projects, setProjects] = useState<Project[]>([]);
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const activeProjects = useMemo(() => projects.filter(project => !project.deletedAt), [projects]);
+  const search = useProjectSearch(activeProjects);
+  const purgingRef = useRef(new Set<string>());
 
   useEffect(() => {
     if (!user) return;
 
-    const projectsRef = query(ref(database, 'projects'), orderByChild('ownerId'), equalTo(user.uid));
-    const unsubscribe = onValue(projectsRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        const projectList = Object.values(data) as Project[];
-        projectList.sort((a, b) => b.lastModified - a.lastModified);
-        setProjects(projectList);
-      } else {
-        setProjects([]);
-      }
+    const unsubscribe = repository.subscribeToOwnerProjects(user.uid, setProjects, (error) => {
+      console.error("Error loading projects:", error);
     });
 
     return () => unsubscribe();
-  }, [user]);
+  }, [user, repository]);
 
-  const handleCreateProject = async (type: ProjectType, title: string) => {
+  useEffect(() => {
     if (!user) return;
 
-    const newProjectId = push(ref(database, 'projects')).key;
+    const unsubscribe = repository.subscribeToTemplates(user.uid, setTemplates);
+
+    return () => unsubscribe();
+  }, [user, repository]);
+
+  // Projects past the trash retention period go for good, version history included
+  useEffect(() => {
+    findExpiredTrash(projects, trashRetentionDays)
+      .filter(project => !purgingRef.current.has(project.id))
+      .forEach(project => {
+        purgingRef.current.add(project.id);
+        repository.deleteProject(project.id)
+          .catch(error => console.error("Error purging project:", error));
+      });
+  }, [projects, repository]);
+
+  const handleCreateProject = async (type: ProjectType, title: string, content?: string, folder?: string, template?: ProjectTemplate) => {
+    if (!user) return;
+
+    const newProjectId = repository.createProjectId();
     if (!newProjectId) return;
 
     const newProject: Project = {
       id: newProjectId,
       title: title,
       type: type,
-      content: type === 'mindmap' ? '# Root' : '',
+      content: content ?? (type === 'mindmap' ? '# Root' : ''),
+      createdAt: Date.now(),
       lastModified: Date.now(),
-      ownerId: user.uid
+      ownerId: user.uid,
+      ...(folder ? { folder } : {}),
+      ...(template ? applyTemplate(template, { title, author: user.displayName || user.email || '' }) : {})
     };
 
     try {
-      await set(ref(database, `projects/${newProjectId}`), newProject);
+      await repository.saveProject(newProject);
       navigate(`/project/${newProjectId}`);
     } catch (error) {
       console.error("Error creating project:", error);
     }
   };
 
+  // Copies content and organization, not sharing settings; the version
+  // history is copied on request
+  const handleDuplicateProject = async (id: string, title: string, withVersions: boolean) => {
+    const source = projects.find(project => project.id === id);
+    if (!user || !source) return;
+
+    const newProjectId = repository.createProjectId();
+    const now = Date.now();
+    const copy: Project = {
+      id: newProjectId,
+      title,
+      type: source.type,
+      content: source.content,
+      createdAt: now,
+      lastModified: now,
+      ownerId: user.uid,
+      ...(source.canvas ? { canvas: source.canvas } : {}),
+      ...(source.mindmapLayout ? { mindmapLayout: source.mindmapLayout } : {}),
+      ...(source.folder ? { folder: source.folder } : {}),
+      ...(source.tags?.length ? { tags: source.tags } : {}),
+    };
+
+    try {
+      // Both backends only accept versions of a project that already exists
+      await repository.saveProject(copy);
+      if (withVersions) {
+        const versions = await repository.listVersions(id);
+        await Promise.all(versions.map(version => repository.saveVersion({
+          ...version,
+          id: crypto.randomUUID(),
+          projectId: newProjectId,
+        })));
+      }
+    } catch (error) {
+      console.error("Error duplicating project:", error);
+      alert("Ошибка копирования проекта.");
+    }
+  };
+
+  const handleSaveAsTemplate = async (id: string, details: Pick<ProjectTemplate, 'title' | 'description' | 'shared'>) => {
+    const source = projects.find(project => project.id === id);
+    if (!user || !source) return;
+
+    const template: ProjectTemplate = {
+      id: crypto.randomUUID(),
+      title: details.title,
+      shared: details.shared,
+      type: source.type,
+      content: source.content,
+      ownerId: user.uid,
+      createdAt: Date.now(),
+      ...(source.canvas ? { canvas: source.canvas } : {}),
+      ...(source.mindmapLayout ? { mindmapLayout: source.mindmapLayout } : {}),
+      ...(details.description ? { description: details.description } : {}),
+      ...(user.displayName ? { authorName: user.displayName } : {}),
+    };
+
+    try {
+      await repository.saveTemplate(template);
+    } catch (error) {
+      console.error("Error saving template:", error);
+      alert("Ошибка сохранения шаблона.");
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    try {
+      await repository.deleteTemplate(id);
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      alert("Ошибка удаления шаблона.");
+    }
+  };
+
+  // Moves the project to the trash; versions stay until it is purged
   const handleDeleteProject = async (id: string) => {
     try {
-      await remove(ref(database, `project_versions/${id}`));
-      await remove(ref(database, `projects/${id}`));
+      await repository.patchProject(id, { deletedAt: Date.now() });
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      alert("Ошибка удаления проекта.");
+    }
+  };
+
+  const handleRestoreProject = async (id: string) => {
+    try {
+      await repository.patchProject(id, { deletedAt: null });
+    } catch (error) {
+      console.error("Error restoring project:", error);
+      alert("Ошибка восстановления проекта.");
+    }
+  };
+
+  const handleDeleteForever = async (ids: string[]) => {
+    try {
+      await Promise.all(ids.map(id => repository.deleteProject(id)));
     } catch (error) {
       console.error("Error deleting project:", error);
       alert("Ошибка удаления проекта.");
@@ -67,7 +185,7 @@ function DashboardWrapper() {
 
   const handleRenameProject = async (id: string, newTitle: string) => {
     try {
-      await update(ref(database, `projects/${id}`), {
+      await repository.patchProject(id, {
         title: newTitle,
         lastModified: Date.now()
       });
@@ -77,22 +195,43 @@ function DashboardWrapper() {
     }
   };
 
+  // Folder, tags, pin and archive changes keep the modification date
+  const handleUpdateProject = async (id: string, updates: Partial<Project>) => {
+    try {
+      await repository.patchProject(id, updates);
+    } catch (error) {
+      console.error("Error updating project:", error);
+      alert("Ошибка обновления проекта.");
+    }
+  };
+
   return (
     <Dashboard
       onCreateProject={handleCreateProject}
       projects={projects}
-      onOpenProject={(id) => navigate(`/project/${id}`)}
+      onOpenProject={(id, headingId) => navigate(headingId ? `/project/${id}?heading=${encodeURIComponent(headingId)}` : `/project/${id}`)}
       onDeleteProject={handleDeleteProject}
       onRenameProject={handleRenameProject}
+      onUpdateProject={handleUpdateProject}
+      onRestoreProject={handleRestoreProject}
+      onDeleteForever={handleDeleteForever}
+      onDuplicateProject={handleDuplicateProject}
+      templates={templates}
+      onSaveAsTemplate={handleSaveAsTemplate}
+      onDeleteTemplate={handleDeleteTemplate}
+      search={search}
     />
   );
 }
 
 function EditorWrapper() {
   const { projectId } = useParams();
+  const [searchParams] = useSearchParams();
   const { user } = useAuth();
+  const repository = useProjectRepository();
   const navigate = useNavigate();
   const [project, setProject] = useState<Project | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -104,11 +243,11 @@ function EditorWrapper() {
       return;
     }
 
-    const projectRef = ref(database, `projects/${projectId}`);
-    const unsubscribe = onValue(projectRef, (snapshot) => {
-      const data = snapshot.val();
+    const unsubscribe = repository.subscribeToProject(projectId, (data) => {
       if (data) {
-        if (data.ownerId === user.uid || data.isPublicEdit) {
+        if (data.deletedAt) {
+          setError('Проект находится в корзине.');
+        } else if (data.ownerId === user.uid || data.isPublicEdit) {
           setProject(data);
         } else {
           setError('Нет доступа к редактированию.');
@@ -124,30 +263,48 @@ function EditorWrapper() {
     });
 
     return () => unsubscribe();
-  }, [projectId, user]);
+  }, [projectId, user, repository]);
+
+  // Targets for `[[...]]` links and sources of backlinks
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = repository.subscribeToOwnerProjects(user.uid, (owned) => {
+      setProjects(owned.filter(p => !p.deletedAt));
+    }, (error) => {
+      console.error("Error loading projects:", error);
+    });
+
+    return () => unsubscribe();
+  }, [user, repository]);
+
+  const handleOpenProject = (id: string, headingId?: string) => {
+    navigate(headingId ? `/project/${id}?heading=${encodeURIComponent(headingId)}` : `/project/${id}`);
+  };
 
   const handleSaveProject = useCallback(async (updatedProject: Project) => {
     try {
-      await set(ref(database, `projects/${updatedProject.id}`), updatedProject);
+      await repository.saveProject(updatedProject);
     } catch (error) {
       console.error("Error saving project:", error);
     }
-  }, []);
+  }, [repository]);
 
   const handleSaveVersion = useCallback(async (content: string, title: string) => {
     if (!project) return;
     const versionId = crypto.randomUUID();
     const timestamp = Date.now();
-    const version = {
+    const version: ProjectVersion = {
       id: versionId,
       projectId: project.id,
       content: content,
       title: title,
       timestamp: timestamp,
+      kind: 'manual',
     };
     try {
-      await set(ref(database, `project_versions/${project.id}/${versionId}`), version);
-      await update(ref(database, `projects/${project.id}`), {
+      await repository.saveVersion(version);
+      await repository.patchProject(project.id, {
         content,
         title,
         lastModified: timestamp
@@ -156,19 +313,31 @@ function EditorWrapper() {
     } catch (error) {
       console.error("Error saving version:", error);
     }
-  }, [project]);
+  }, [project, repository]);
 
   if (loading) return <div className="min-h-screen bg-black text-white flex items-center justify-center">Загрузка...</div>;
   if (!user) return <Login />;
   if (error) return <div className="min-h-screen bg-black text-white flex items-center justify-center">{error} <button onClick={() => navigate('/')} className="ml-4 underline">На главную</button></div>;
   if (!project) return null;
 
+  if (project.type === 'canvas') {
+    return (
+      <div className="h-screen">
+        <MindmapPane key={project.id} project={project} onBack={() => navigate('/')} onSave={handleSaveProject} />
+      </div>
+    );
+  }
+
   return (
     <Editor
+      key={project.id}
       project={project}
       onBack={() => navigate('/')}
       onSave={handleSaveProject}
       onSaveVersion={handleSaveVersion}
+      projects={projects}
+      onOpenProject={handleOpenProject}
+      focusHeadingId={searchParams.get('heading')}
     />
   );
 }
@@ -180,16 +349,18 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
-export default function App() {
+export default function App({ repository = defaultProjectRepository }: { repository?: ProjectRepository }) {
   return (
     <AuthProvider>
-      <HashRouter>
-        <Routes>
-          <Route path="/" element={<ProtectedRoute><DashboardWrapper /></ProtectedRoute>} />
-          <Route path="/project/:projectId" element={<EditorWrapper />} />
-          <Route path="/view/:projectId" element={<PublicViewer />} />
-        </Routes>
-      </HashRouter>
+      <ProjectRepositoryProvider repository={repository}>
+        <HashRouter>
+          <Routes>
+            <Route path="/" element={<ProtectedRoute><DashboardWrapper /></ProtectedRoute>} />
+            <Route path="/project/:projectId" element={<EditorWrapper />} />
+            <Route path="/view/:projectId" element={<PublicViewer />} />
+          </Routes>
+        </HashRouter>
+      </ProjectRepositoryProvider>
     </AuthProvider>
   );
 }
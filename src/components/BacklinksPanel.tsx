@@ -0,0 +1,58 @@
+import React from 'react';
+import { FileText, Hash, X } from 'lucide-react';
+import { Backlink } from '../utils/wikiLinks';
+
+interface BacklinksPanelProps {
+  backlinks: Backlink[];
+  onOpen: (projectId: string, headingId?: string) => void;
+  onClose: () => void;
+}
+
+// Projects and sections that link here with `[[Title]]` or `[[Title#Heading]]`
+export default function BacklinksPanel({ backlinks, onOpen, onClose }: BacklinksPanelProps) {
+  return (
+    <aside className="w-full md:w-72 h-full shrink-0 border-l border-white/10 bg-zinc-950 overflow-y-auto">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h3 className="text-sm font-medium text-white">Обратные ссылки</h3>
+        <button onClick={onClose} className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      {backlinks.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-zinc-500">
+          Нет проектов, ссылающихся сюда. Добавьте ссылку вида [[Название]] в другом проекте.
+        </p>
+      ) : (
+        <ul className="py-2">
+          {backlinks.map(({ project, sections }) => (
+            <li key={project.id} className="px-2 pb-2">
+              <button
+                onClick={() => onOpen(project.id)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm font-medium text-zinc-200 hover:bg-zinc-900 hover:text-white transition-colors"
+              >
+                <FileText size={14} className="shrink-0 text-zinc-500" />
+                <span className="truncate">{project.title || 'Без названия'}</span>
+              </button>
+              {sections.map(section => (
+                <button
+                  key={section.id}
+                  onClick={() => onOpen(project.id, section.id === 'root' ? undefined : section.id)}
+                  className="w-full text-left pl-7 pr-2 py-1.5 rounded hover:bg-zinc-900 transition-colors group"
+                >
+                  {section.id !== 'root' && (
+                    <div className="flex items-center gap-1 text-xs text-zinc-400 group-hover:text-white">
+                      <Hash size={12} className="shrink-0" />
+                      <span className="truncate">{section.text}</span>
+                    </div>
+                  )}
+                  <div className="text-xs text-zinc-500 line-clamp-2 break-words">{section.snippet}</div>
+                </button>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -1,40 +1,198 @@
-import React, { useState } from 'react';
+import React, { useDeferredValue, useMemo, useRef, useState } from 'react';
 import { motion } from 'motion/react';
-import { FileText, Network, SplitSquareHorizontal, Plus, LogOut, Trash2, Edit2, Check, X } from 'lucide-react';
-import { ProjectType, Project } from '../types';
+import { FileText, Network, SplitSquareHorizontal, Shapes, Plus, LogOut, Trash2, Edit2, Check, X, Upload, LayoutList, Waypoints, Search, Pin, PinOff, Tag, Archive, ArchiveRestore, Folder, RotateCcw, Copy, LayoutTemplate } from 'lucide-react';
+import { ProjectType, Project, ProjectTemplate } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import OutlineExportMenu from './OutlineExportMenu';
+import ProjectGraph from './ProjectGraph';
+import SearchResults from './SearchResults';
+import FolderTree, { PROJECT_DRAG_TYPE } from './FolderTree';
+import TemplateGallery from './TemplateGallery';
+import { ProjectSearch } from '../hooks/useProjectSearch';
+import { OUTLINE_IMPORT_ACCEPT, importOutlineFile } from '../utils/outlineFormats';
+import { ProjectScope, ProjectSort, buildFolderTree, collectTags, filterProjects, normalizeFolderPath, parseTags, sortProjects, trashExpiresAt } from '../utils/projectOrganization';
+import { BUILTIN_TEMPLATES, TEMPLATE_VARIABLES } from '../utils/projectTemplates';
+import { trashRetentionDays } from '../lib/config';
+
+const CREATE_TYPES: { type: ProjectType; label: string; icon: React.ElementType }[] = [
+  { type: 'both', label: 'Документ с картой', icon: SplitSquareHorizontal },
+  { type: 'canvas', label: 'Холст', icon: Shapes },
+];
+
+const FILTER_TYPES: { type: ProjectType; label: string; icon: React.ElementType }[] = [
+  { type: 'text', label: 'Текст', icon: FileText },
+  { type: 'both', label: 'Документ с картой', icon: SplitSquareHorizontal },
+  { type: 'mindmap', label: 'Карта', icon: Network },
+  { type: 'canvas', label: 'Холст', icon: Shapes },
+];
+
+const SORT_OPTIONS: { value: ProjectSort; label: string }[] = [
+  { value: 'modified', label: 'По изменению' },
+  { value: 'created', label: 'По созданию' },
+  { value: 'title', label: 'По названию' },
+];
 
 interface DashboardProps {
-  onCreateProject: (type: ProjectType, title: string) => void;
+  onCreateProject: (type: ProjectType, title: string, content?: string, folder?: string, template?: ProjectTemplate) => void;
   projects: Project[];
-  onOpenProject: (id: string) => void;
+  onOpenProject: (id: string, headingId?: string) => void;
+  // Moves to the trash
   onDeleteProject: (id: string) => void;
+  onRestoreProject: (id: string) => void;
+  onDeleteForever: (ids: string[]) => void;
   onRenameProject: (id: string, newTitle: string) => void;
+  // Organization fields only: folder, tags, pinned, archived
+  onUpdateProject: (id: string, updates: Partial<Project>) => void;
+  onDuplicateProject: (id: string, title: string, withVersions: boolean) => void;
+  // The user's own and shared templates, built-in ones are added here
+  templates: ProjectTemplate[];
+  onSaveAsTemplate: (id: string, details: Pick<ProjectTemplate, 'title' | 'description' | 'shared'>) => void;
+  onDeleteTemplate: (id: string) => void;
+  search: ProjectSearch;
 }
 
-export default function Dashboard({ onCreateProject, projects, onOpenProject, onDeleteProject, onRenameProject }: DashboardProps) {
+export default function Dashboard({ onCreateProject, projects, onOpenProject, onDeleteProject, onRenameProject, onUpdateProject, onRestoreProject, onDeleteForever, onDuplicateProject, templates, onSaveAsTemplate, onDeleteTemplate, search }: DashboardProps) {
   const { user, logout } = useAuth();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState('');
-  const [projectToDelete, setProjectToDelete] = useState<string | null>(null);
+  // Trashed projects waiting for the "delete forever" confirmation
+  const [projectsToDelete, setProjectsToDelete] = useState<string[] | null>(null);
   
   // Create Project Modal State
   const [createModalOpen, setCreateModalOpen] = useState(false);
   const [newProjectTitle, setNewProjectTitle] = useState('');
   const [newProjectType, setNewProjectType] = useState<ProjectType>('both');
+  const [newProjectTemplate, setNewProjectTemplate] = useState<ProjectTemplate | null>(null);
+  // "Duplicate" and "Save as template" dialogs
+  const [duplicateSource, setDuplicateSource] = useState<Project | null>(null);
+  const [duplicateTitle, setDuplicateTitle] = useState('');
+  const [duplicateWithVersions, setDuplicateWithVersions] = useState(false);
+  const [templateSource, setTemplateSource] = useState<Project | null>(null);
+  const [templateTitle, setTemplateTitle] = useState('');
+  const [templateDescription, setTemplateDescription] = useState('');
+  const [templateShared, setTemplateShared] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [view, setView] = useState<'list' | 'graph'>('list');
+  const [scope, setScope] = useState<ProjectScope>({ kind: 'all' });
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedTypes, setSelectedTypes] = useState<ProjectType[]>([]);
+  const [sort, setSort] = useState<ProjectSort>('modified');
+  // Folders created in the sidebar that have no projects yet
+  const [newFolders, setNewFolders] = useState<string[]>([]);
+  const [tagEditId, setTagEditId] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [query, setQuery] = useState('');
+  // Typing stays responsive while results for the previous query render
+  const deferredQuery = useDeferredValue(query.trim());
+  const searchResults = useMemo(
+    () => deferredQuery ? search.search(deferredQuery) : [],
+    [deferredQuery, search.search, search.version]
+  );
+
+  const folders = useMemo(() => buildFolderTree(projects, newFolders), [projects, newFolders]);
+  const allTags = useMemo(() => collectTags(projects), [projects]);
+  const visibleProjects = useMemo(
+    () => sortProjects(filterProjects(projects, { scope, tags: selectedTags, types: selectedTypes }), sort),
+    [projects, scope, selectedTags, selectedTypes, sort]
+  );
+  const counts = useMemo(() => {
+    const active = projects.filter(p => !p.deletedAt);
+    return {
+      all: active.filter(p => !p.archived).length,
+      pinned: active.filter(p => p.pinned && !p.archived).length,
+      archive: active.filter(p => p.archived).length,
+      trash: projects.length - active.length,
+    };
+  }, [projects]);
+  const currentFolder = scope.kind === 'folder' ? scope.path : undefined;
+
+  const toggleInList = <T,>(list: T[], item: T) =>
+    list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+  const handleDropProject = (projectId: string, target: ProjectScope) => {
+    if (target.kind === 'pinned') onUpdateProject(projectId, { pinned: true });
+    if (target.kind === 'archive') onUpdateProject(projectId, { archived: true });
+    if (target.kind === 'trash') onDeleteProject(projectId);
+    if (target.kind === 'all') onUpdateProject(projectId, { folder: '', archived: false });
+    if (target.kind === 'folder') onUpdateProject(projectId, { folder: target.path, archived: false });
+  };
+
+  const handleStartTagEdit = (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+    setTagEditId(project.id);
+    setTagInput((project.tags ?? []).join(', '));
+  };
+
+  const handleSaveTags = (id: string) => {
+    onUpdateProject(id, { tags: parseTags(tagInput) });
+    setTagEditId(null);
+  };
+
+  const galleryTemplates = useMemo(() => [...BUILTIN_TEMPLATES, ...templates], [templates]);
 
   const handleCreateClick = (type: ProjectType) => {
     setNewProjectType(type);
+    setNewProjectTemplate(null);
     setNewProjectTitle('');
     setCreateModalOpen(true);
   };
 
   const confirmCreate = () => {
     if (!newProjectTitle.trim()) return;
-    onCreateProject(newProjectType, newProjectTitle.trim());
+    if (newProjectTemplate) {
+      onCreateProject(newProjectTemplate.type, newProjectTitle.trim(), undefined, currentFolder, newProjectTemplate);
+    } else {
+      onCreateProject(newProjectType, newProjectTitle.trim(), undefined, currentFolder);
+    }
     setCreateModalOpen(false);
   };
 
+  const handleDuplicateClick = (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+    setDuplicateSource(project);
+    setDuplicateTitle(`${project.title} (копия)`);
+    setDuplicateWithVersions(false);
+  };
+
+  const confirmDuplicate = () => {
+    if (!duplicateSource || !duplicateTitle.trim()) return;
+    onDuplicateProject(duplicateSource.id, duplicateTitle.trim(), duplicateWithVersions);
+    setDuplicateSource(null);
+  };
+
+  const handleSaveTemplateClick = (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+    setTemplateSource(project);
+    setTemplateTitle(project.title);
+    setTemplateDescription('');
+    setTemplateShared(false);
+  };
+
+  const confirmSaveTemplate = () => {
+    if (!templateSource || !templateTitle.trim()) return;
+    onSaveAsTemplate(templateSource.id, {
+      title: templateTitle.trim(),
+      description: templateDescription.trim() || undefined,
+      shared: templateShared,
+    });
+    setTemplateSource(null);
+  };
+
+  // FreeMind, OPML and XMind files become a new project with the same heading tree
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { title, content } = await importOutlineFile(file);
+      onCreateProject('both', title, content, currentFolder);
+    } catch (error) {
+      console.error("Error importing file:", error);
+      alert("Не удалось импортировать файл. Поддерживаются .mm, .opml и .xmind.");
+    }
+  };
+
   const handleStartEdit = (e: React.MouseEvent, project: Project) => {
     e.stopPropagation();
     setEditingId(project.id);
@@ -56,19 +214,19 @@ export default function Dashboard({ onCreateProject, projects, onOpenProject, on
 
   const handleDeleteClick = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    setProjectToDelete(id);
+    onDeleteProject(id);
   };
 
   const confirmDelete = () => {
-    if (projectToDelete) {
-      onDeleteProject(projectToDelete);
-      setProjectToDelete(null);
+    if (projectsToDelete) {
+      onDeleteForever(projectsToDelete);
+      setProjectsToDelete(null);
     }
   };
 
   return (
     <div className="min-h-screen bg-black text-white p-8 font-sans">
-      <div className="max-w-5xl mx-auto">
+      <div className="max-w-6xl mx-auto">
         <header className="mb-12 flex justify-between items-center">
            <div>
               <h1 className="text-4xl font-bold tracking-tight mb-2">Проекты</h1>
@@ -98,95 +256,342 @@ export default function Dashboard({ onCreateProject, projects, onOpenProject, on
            </div>
         </header>
 
-        <div className="flex justify-end mb-8">
-          <button
-            onClick={() => handleCreateClick('both')}
-            className="flex items-center gap-2 px-4 py-2 bg-white text-black rounded-lg hover:bg-zinc-200 transition-colors font-medium text-sm shadow-lg shadow-white/5"
-          >
-            <Plus size={18} />
-            <span>Новый проект</span>
-          </button>
-        </div>
+        <div className="md:flex gap-8">
+          <aside className="md:w-56 shrink-0 mb-8 md:mb-0">
+            <FolderTree
+              folders={folders}
+              scope={scope}
+              counts={counts}
+              onScopeChange={setScope}
+              onDropProject={handleDropProject}
+              onCreateFolder={(path) => setNewFolders([...newFolders, path])}
+            />
+          </aside>
 
-        {projects.length > 0 ? (
-          <section>
-            <div className="grid grid-cols-1 gap-4">
-              {projects.map((project) => (
-                <div
-                  key={project.id}
-                  onClick={() => onOpenProject(project.id)}
-                  className="flex items-center justify-between p-4 rounded-xl border border-white/5 bg-zinc-900/30 hover:bg-zinc-900 hover:border-white/10 cursor-pointer transition-colors group"
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-end gap-2 mb-4">
+              <div className="flex items-center gap-1 mr-auto bg-zinc-900/50 p-1 rounded-lg border border-white/5">
+                <button
+                  onClick={() => setView('list')}
+                  className={`p-1.5 rounded transition-colors ${view === 'list' ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+                  title="Список"
                 >
-                  <div className="flex items-center gap-4">
-                    <div className="p-2 rounded-lg bg-zinc-950 text-zinc-400 group-hover:text-white transition-colors">
-                      {project.type === 'text' && <FileText size={18} />}
-                      {project.type === 'both' && <SplitSquareHorizontal size={18} />}
-                      {project.type === 'mindmap' && <Network size={18} />}
-                    </div>
-                    <div>
-                      {editingId === project.id ? (
-                        <div className="flex items-center gap-2" onClick={e => e.stopPropagation()}>
-                          <input
-                            type="text"
-                            value={editTitle}
-                            onChange={(e) => setEditTitle(e.target.value)}
-                            className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-white outline-none focus:border-blue-500"
-                            autoFocus
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') handleSaveEdit(e as any, project.id);
-                              if (e.key === 'Escape') handleCancelEdit(e as any);
-                            }}
-                          />
-                          <button onClick={(e) => handleSaveEdit(e, project.id)} className="p-1 text-green-400 hover:text-green-300">
-                            <Check size={16} />
+                  <LayoutList size={16} />
+                </button>
+                <button
+                  onClick={() => setView('graph')}
+                  className={`p-1.5 rounded transition-colors ${view === 'graph' ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+                  title="Граф связей"
+                >
+                  <Waypoints size={16} />
+                </button>
+              </div>
+              <div className="relative flex-1 max-w-xs">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500 pointer-events-none" />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Escape') setQuery(''); }}
+                  placeholder="Поиск по проектам..."
+                  className="w-full h-full bg-zinc-900/50 border border-zinc-800 rounded-lg pl-9 pr-8 py-2 text-sm text-white placeholder-zinc-500 outline-none focus:border-zinc-600 transition-colors"
+                />
+                {query && (
+                  <button
+                    onClick={() => setQuery('')}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 text-zinc-500 hover:text-white"
+                    title="Очистить"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
+              </div>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex items-center gap-2 px-4 py-2 border border-zinc-800 text-zinc-300 rounded-lg hover:bg-zinc-900 hover:text-white transition-colors font-medium text-sm"
+                title="FreeMind, OPML или XMind"
+              >
+                <Upload size={18} />
+                <span>Импорт</span>
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={OUTLINE_IMPORT_ACCEPT}
+                className="hidden"
+                onChange={handleImportFile}
+              />
+              <button
+                onClick={() => handleCreateClick('both')}
+                className="flex items-center gap-2 px-4 py-2 bg-white text-black rounded-lg hover:bg-zinc-200 transition-colors font-medium text-sm shadow-lg shadow-white/5"
+              >
+                <Plus size={18} />
+                <span>Новый проект</span>
+              </button>
+            </div>
+
+            {!deferredQuery && (
+              <div className="flex flex-wrap items-center gap-1.5 mb-6">
+                {FILTER_TYPES.map(({ type, label, icon: Icon }) => (
+                  <button
+                    key={type}
+                    onClick={() => setSelectedTypes(toggleInList(selectedTypes, type))}
+                    className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs transition-colors ${selectedTypes.includes(type) ? 'border-blue-500 bg-blue-500/10 text-white' : 'border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-700'}`}
+                  >
+                    <Icon size={12} />
+                    {label}
+                  </button>
+                ))}
+                {allTags.length > 0 && <div className="w-px h-4 bg-white/10 mx-1" />}
+                {allTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => setSelectedTags(toggleInList(selectedTags, tag))}
+                    className={`px-2.5 py-1 rounded-full border text-xs transition-colors ${selectedTags.includes(tag) ? 'border-blue-500 bg-blue-500/10 text-white' : 'border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-700'}`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+                {(selectedTypes.length > 0 || selectedTags.length > 0) && (
+                  <button
+                    onClick={() => { setSelectedTypes([]); setSelectedTags([]); }}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-zinc-500 hover:text-white"
+                  >
+                    <X size={12} />
+                    Сбросить
+                  </button>
+                )}
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as ProjectSort)}
+                  className="ml-auto bg-zinc-900/50 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 outline-none cursor-pointer hover:text-white"
+                >
+                  {SORT_OPTIONS.map(({ value, label }) => (
+                    <option key={value} value={value} className="bg-zinc-900">{label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {!deferredQuery && scope.kind === 'trash' && (
+              <div className="flex items-center justify-between gap-4 mb-4 px-4 py-3 rounded-xl border border-white/5 bg-zinc-900/30 text-sm text-zinc-400">
+                <span>
+                  {trashRetentionDays > 0
+                    ? `Проекты в корзине удаляются навсегда через ${trashRetentionDays} дн. вместе с историей версий.`
+                    : 'Проекты хранятся в корзине, пока вы не удалите их навсегда.'}
+                </span>
+                {visibleProjects.length > 0 && (
+                  <button
+                    onClick={() => setProjectsToDelete(visibleProjects.map(p => p.id))}
+                    className="shrink-0 px-3 py-1.5 rounded-lg text-xs text-red-400 hover:text-red-300 hover:bg-zinc-800 transition-colors"
+                  >
+                    Очистить корзину
+                  </button>
+                )}
+              </div>
+            )}
+
+            {deferredQuery ? (
+              <SearchResults results={searchResults} indexing={search.indexing} onOpen={onOpenProject} />
+            ) : view === 'graph' && visibleProjects.length > 0 ? (
+              <section className="h-[70vh] rounded-xl border border-white/5 overflow-hidden">
+                <ProjectGraph projects={visibleProjects} onOpenProject={onOpenProject} />
+              </section>
+            ) : visibleProjects.length > 0 ? (
+              <section>
+                <div className="grid grid-cols-1 gap-4">
+                  {visibleProjects.map((project) => (
+                    <div
+                      key={project.id}
+                      onClick={() => !project.deletedAt && onOpenProject(project.id)}
+                      draggable={!project.deletedAt && editingId !== project.id && tagEditId !== project.id}
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData(PROJECT_DRAG_TYPE, project.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                      }}
+                      className="flex items-center justify-between p-4 rounded-xl border border-white/5 bg-zinc-900/30 hover:bg-zinc-900 hover:border-white/10 cursor-pointer transition-colors group"
+                    >
+                      <div className="flex items-center gap-4">
+                        <div className="p-2 rounded-lg bg-zinc-950 text-zinc-400 group-hover:text-white transition-colors">
+                          {project.type === 'text' && <FileText size={18} />}
+                          {project.type === 'both' && <SplitSquareHorizontal size={18} />}
+                          {project.type === 'mindmap' && <Network size={18} />}
+                          {project.type === 'canvas' && <Shapes size={18} />}
+                        </div>
+                        <div>
+                          {editingId === project.id ? (
+                            <div className="flex items-center gap-2" onClick={e => e.stopPropagation()}>
+                              <input
+                                type="text"
+                                value={editTitle}
+                                onChange={(e) => setEditTitle(e.target.value)}
+                                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-white outline-none focus:border-blue-500"
+                                autoFocus
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') handleSaveEdit(e as any, project.id);
+                                  if (e.key === 'Escape') handleCancelEdit(e as any);
+                                }}
+                              />
+                              <button onClick={(e) => handleSaveEdit(e, project.id)} className="p-1 text-green-400 hover:text-green-300">
+                                <Check size={16} />
+                              </button>
+                              <button onClick={handleCancelEdit} className="p-1 text-zinc-500 hover:text-white">
+                                <X size={16} />
+                              </button>
+                            </div>
+                          ) : (
+                            <>
+                              <h4 className="flex items-center gap-1.5 font-medium text-zinc-200 group-hover:text-white transition-colors">
+                                {project.pinned && <Pin size={12} className="shrink-0 text-amber-400" />}
+                                {project.title || 'Без названия'}
+                              </h4>
+                              <p className="flex items-center gap-2 text-xs text-zinc-500">
+                                {project.deletedAt ? (
+                                  <>
+                                    Удалено {new Date(project.deletedAt).toLocaleDateString()}
+                                    {trashExpiresAt(project, trashRetentionDays) && (
+                                      <span>· удалится навсегда {new Date(trashExpiresAt(project, trashRetentionDays)!).toLocaleDateString()}</span>
+                                    )}
+                                  </>
+                                ) : (
+                                  <>Изменено {new Date(project.lastModified).toLocaleDateString()}</>
+                                )}
+                                {normalizeFolderPath(project.folder) && normalizeFolderPath(project.folder) !== currentFolder && (
+                                  <span className="flex items-center gap-1">
+                                    <Folder size={11} />
+                                    {normalizeFolderPath(project.folder)}
+                                  </span>
+                                )}
+                              </p>
+                            </>
+                          )}
+                          {tagEditId === project.id ? (
+                            <input
+                              type="text"
+                              value={tagInput}
+                              onChange={(e) => setTagInput(e.target.value)}
+                              onClick={(e) => e.stopPropagation()}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleSaveTags(project.id);
+                                if (e.key === 'Escape') setTagEditId(null);
+                              }}
+                              onBlur={() => handleSaveTags(project.id)}
+                              placeholder="Теги через запятую"
+                              className="mt-1 w-64 bg-zinc-800 border border-zinc-700 rounded px-2 py-0.5 text-xs text-white outline-none focus:border-blue-500"
+                              autoFocus
+                            />
+                          ) : project.tags && project.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {project.tags.map(tag => (
+                                <button
+                                  key={tag}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    if (!selectedTags.includes(tag)) setSelectedTags([...selectedTags, tag]);
+                                  }}
+                                  className="px-1.5 py-0.5 rounded bg-zinc-800 text-[11px] text-zinc-400 hover:text-white"
+                                >
+                                  #{tag}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {project.deletedAt ? (
+                          <>
+                            <button
+                              onClick={(e) => { e.stopPropagation(); onRestoreProject(project.id); }}
+                              className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                              title="Восстановить"
+                            >
+                              <RotateCcw size={16} />
+                            </button>
+                            <button
+                              onClick={(e) => { e.stopPropagation(); setProjectsToDelete([project.id]); }}
+                              className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-red-400 transition-colors"
+                              title="Удалить навсегда"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                          {project.type !== 'canvas' && (
+                            <OutlineExportMenu title={project.title} content={project.content} buttonClassName="p-2 rounded-lg" />
+                          )}
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onUpdateProject(project.id, { pinned: !project.pinned }); }}
+                            className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                            title={project.pinned ? 'Открепить' : 'Закрепить'}
+                          >
+                            {project.pinned ? <PinOff size={16} /> : <Pin size={16} />}
                           </button>
-                          <button onClick={handleCancelEdit} className="p-1 text-zinc-500 hover:text-white">
-                            <X size={16} />
+                          <button
+                            onClick={(e) => handleStartTagEdit(e, project)}
+                            className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                            title="Теги"
+                          >
+                            <Tag size={16} />
                           </button>
-                        </div>
-                      ) : (
-                        <>
-                          <h4 className="font-medium text-zinc-200 group-hover:text-white transition-colors">{project.title || 'Без названия'}</h4>
-                          <p className="text-xs text-zinc-500">
-                            Изменено {new Date(project.lastModified).toLocaleDateString()}
-                          </p>
-                        </>
-                      )}
+                          <button
+                            onClick={(e) => handleDuplicateClick(e, project)}
+                            className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                            title="Дублировать"
+                          >
+                            <Copy size={16} />
+                          </button>
+                          <button
+                            onClick={(e) => handleSaveTemplateClick(e, project)}
+                            className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                            title="Сохранить как шаблон"
+                          >
+                            <LayoutTemplate size={16} />
+                          </button>
+                          <button
+                            onClick={(e) => handleStartEdit(e, project)}
+                            className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                            title="Переименовать"
+                          >
+                            <Edit2 size={16} />
+                          </button>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onUpdateProject(project.id, { archived: !project.archived }); }}
+                            className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                            title={project.archived ? 'Вернуть из архива' : 'В архив'}
+                          >
+                            {project.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                          </button>
+                          <button
+                            onClick={(e) => handleDeleteClick(e, project.id)}
+                            className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-red-400 transition-colors"
+                            title="В корзину"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                          </>
+                        )}
+                      </div>
                     </div>
-                  </div>
-
-                  <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <button
-                      onClick={(e) => handleStartEdit(e, project)}
-                      className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
-                      title="Переименовать"
-                    >
-                      <Edit2 size={16} />
-                    </button>
-                    <button
-                      onClick={(e) => handleDeleteClick(e, project.id)}
-                      className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-red-400 transition-colors"
-                      title="Удалить"
-                    >
-                      <Trash2 size={16} />
-                    </button>
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </section>
-        ) : (
-          <div className="text-center py-20 text-zinc-500">
-            <p>У вас пока нет проектов. Создайте первый!</p>
+              </section>
+            ) : (
+              <div className="text-center py-20 text-zinc-500">
+                <p>{scope.kind === 'trash' ? 'Корзина пуста.' : projects.length > 0 ? 'Здесь пока нет проектов.' : 'У вас пока нет проектов. Создайте первый!'}</p>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
 
       {/* Create Project Modal */}
       {createModalOpen && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[70]" onClick={() => setCreateModalOpen(false)}>
           <div 
-            className="bg-zinc-900 p-6 rounded-xl border border-white/10 w-[400px] shadow-2xl" 
+            className="bg-zinc-900 p-6 rounded-xl border border-white/10 w-[520px] max-w-[calc(100vw-2rem)] shadow-2xl" 
             onClick={e => e.stopPropagation()}
           >
             <h3 className="text-lg font-medium mb-4 text-white">Создать новый проект</h3>
@@ -203,6 +608,35 @@ export default function Dashboard({ onCreateProject, projects, onOpenProject, on
                 onKeyDown={e => e.key === 'Enter' && confirmCreate()}
               />
             </div>
+
+            <div className="mb-6">
+              <label className="block text-sm text-zinc-400 mb-2">Шаблон</label>
+              <TemplateGallery
+                templates={galleryTemplates}
+                selectedId={newProjectTemplate?.id ?? null}
+                onSelect={setNewProjectTemplate}
+                currentUserId={user?.uid}
+                onDelete={onDeleteTemplate}
+              />
+            </div>
+
+            {!newProjectTemplate && (
+              <div className="mb-6">
+                <label className="block text-sm text-zinc-400 mb-2">Тип</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {CREATE_TYPES.map(({ type, label, icon: Icon }) => (
+                    <button
+                      key={type}
+                      onClick={() => setNewProjectType(type)}
+                      className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors ${newProjectType === type ? 'border-blue-500 bg-blue-500/10 text-white' : 'border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-700'}`}
+                    >
+                      <Icon size={16} />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             
             <div className="flex justify-end gap-2">
               <button 
@@ -223,21 +657,140 @@ export default function Dashboard({ onCreateProject, projects, onOpenProject, on
         </div>
       )}
 
+      {/* Duplicate Project Modal */}
+      {duplicateSource && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[70]" onClick={() => setDuplicateSource(null)}>
+          <div
+            className="bg-zinc-900 p-6 rounded-xl border border-white/10 w-[400px] shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          >
+            <h3 className="text-lg font-medium mb-4 text-white">Дублировать проект</h3>
+
+            <div className="mb-4">
+              <label className="block text-sm text-zinc-400 mb-2">Название копии</label>
+              <input
+                type="text"
+                className="w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-white outline-none focus:border-blue-500 transition-colors"
+                value={duplicateTitle}
+                onChange={e => setDuplicateTitle(e.target.value)}
+                autoFocus
+                onKeyDown={e => e.key === 'Enter' && confirmDuplicate()}
+              />
+            </div>
+
+            <label className="flex items-center gap-2 mb-6 text-sm text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={duplicateWithVersions}
+                onChange={e => setDuplicateWithVersions(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Скопировать историю версий
+            </label>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setDuplicateSource(null)}
+                className="px-3 py-1.5 text-sm text-zinc-400 hover:text-white transition-colors"
+              >
+                Отмена
+              </button>
+              <button
+                onClick={confirmDuplicate}
+                className="px-3 py-1.5 text-sm bg-white text-black hover:bg-zinc-200 rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={!duplicateTitle.trim()}
+              >
+                Дублировать
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Save As Template Modal */}
+      {templateSource && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[70]" onClick={() => setTemplateSource(null)}>
+          <div
+            className="bg-zinc-900 p-6 rounded-xl border border-white/10 w-[440px] shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          >
+            <h3 className="text-lg font-medium mb-4 text-white">Сохранить как шаблон</h3>
+
+            <div className="mb-4">
+              <label className="block text-sm text-zinc-400 mb-2">Название шаблона</label>
+              <input
+                type="text"
+                className="w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-white outline-none focus:border-blue-500 transition-colors"
+                value={templateTitle}
+                onChange={e => setTemplateTitle(e.target.value)}
+                autoFocus
+                onKeyDown={e => e.key === 'Enter' && confirmSaveTemplate()}
+              />
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm text-zinc-400 mb-2">Описание</label>
+              <input
+                type="text"
+                className="w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-white outline-none focus:border-blue-500 transition-colors"
+                placeholder="Необязательно"
+                value={templateDescription}
+                onChange={e => setTemplateDescription(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && confirmSaveTemplate()}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              {[false, true].map(shared => (
+                <button
+                  key={String(shared)}
+                  onClick={() => setTemplateShared(shared)}
+                  className={`px-3 py-2 rounded-lg border text-sm text-left transition-colors ${templateShared === shared ? 'border-blue-500 bg-blue-500/10 text-white' : 'border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-700'}`}
+                >
+                  <span className="block font-medium">{shared ? 'Общий' : 'Личный'}</span>
+                  <span className="block text-xs text-zinc-500">{shared ? 'Виден всем пользователям' : 'Виден только вам'}</span>
+                </button>
+              ))}
+            </div>
+
+            <p className="mb-6 text-xs text-zinc-500">
+              При создании проекта подставляются {TEMPLATE_VARIABLES.map(({ name, description }) => `{{${name}}} — ${description}`).join(', ')}.
+            </p>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setTemplateSource(null)}
+                className="px-3 py-1.5 text-sm text-zinc-400 hover:text-white transition-colors"
+              >
+                Отмена
+              </button>
+              <button
+                onClick={confirmSaveTemplate}
+                className="px-3 py-1.5 text-sm bg-white text-black hover:bg-zinc-200 rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={!templateTitle.trim()}
+              >
+                Сохранить
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
-      {projectToDelete && (
-        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[70]" onClick={() => setProjectToDelete(null)}>
+      {projectsToDelete && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[70]" onClick={() => setProjectsToDelete(null)}>
           <div 
             className="bg-zinc-900 p-6 rounded-xl border border-white/10 w-[400px] shadow-2xl" 
             onClick={e => e.stopPropagation()}
           >
-            <h3 className="text-lg font-medium mb-2 text-white">Удаление проекта</h3>
+            <h3 className="text-lg font-medium mb-2 text-white">Удалить навсегда</h3>
             <p className="text-zinc-400 mb-6 text-sm">
-              Вы уверены, что хотите удалить этот проект? Это действие нельзя отменить.
+              {projectsToDelete.length > 1 ? `Проекты (${projectsToDelete.length}) будут удалены` : 'Проект будет удалён'} вместе со всей историей версий. Это действие нельзя отменить.
             </p>
             
             <div className="flex justify-end gap-2">
               <button 
-                onClick={() => setProjectToDelete(null)} 
+                onClick={() => setProjectsToDelete(null)} 
                 className="px-3 py-1.5 text-sm text-zinc-400 hover:text-white transition-colors"
               >
                 Отмена
@@ -246,7 +799,7 @@ export default function Dashboard({ onCreateProject, projects, onOpenProject, on
                 onClick={confirmDelete} 
                 className="px-3 py-1.5 text-sm bg-red-600 hover:bg-red-500 text-white rounded font-medium transition-colors"
               >
-                Удалить
+                Удалить навсегда
               </button>
             </div>
           </div>
@@ -1,108 +1,183 @@
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { ArrowLeft, Bold, Italic, Underline, Heading1, Heading2, Heading3, LayoutPanelLeft, FileText, Network, Image as ImageIcon, Table as TableIcon, Eye, EyeOff, Plus, Trash2, Columns, Rows, ArrowRight, ArrowDown, Lock, Unlock, Maximize, BarChart as BarChartIcon, Code as CodeIcon, Languages, Share2, History, UploadCloud, Edit2, X, Check } from 'lucide-react';
-import { Project, ProjectType, ProjectVersion } from '../types';
-import { database } from '../lib/firebase';
-import { ref, onValue, get, remove, update, set } from 'firebase/database';
-import MindmapGraph from './MindmapGraph';
-import { parseMarkdownHeadings } from '../utils/markdownParser';
+import { ArrowLeft, Bold, Italic, Underline, Heading1, Heading2, Heading3, LayoutPanelLeft, FileText, Network, Image as ImageIcon, Table as TableIcon, Eye, EyeOff, Plus, Trash2, Columns, Rows, ArrowRight, ArrowDown, Lock, Unlock, Maximize, BarChart as BarChartIcon, Code as CodeIcon, Languages, Share2, History, UploadCloud, Edit2, X, Check, Undo2, Redo2, Link2, Search, GitCompare, ListTree } from 'lucide-react';
+import { AutoVersionReason, MindmapLayout, Project, ProjectType, ProjectVersion, RemoteCursor } from '../types';
+import MindmapGraph, { MindmapGraphHandle } from './MindmapGraph';
+import MindmapExportMenu from './MindmapExportMenu';
+import OutlineExportMenu from './OutlineExportMenu';
+import { parseMarkdown, parseMarkdownHeadings, findHeadingNode } from '../utils/markdownParser';
+import { moveSection, renameSection, shiftSectionLevel, insertSiblingSection, duplicateSection, setSectionAttributes, restoreSections } from '../utils/outlineEdits';
+import { HeadingAttributes } from '../utils/headingAttributes';
+import { findCrossLinks } from '../utils/crossLinks';
+import { WikiLinkAttributes, WikiLinkSuggestion, findBacklinks, resolveWikiLink, suggestWikiLinks } from '../utils/wikiLinks';
 import { useEditor, EditorContent } from '@tiptap/react';
 import { StarterKit } from '@tiptap/starter-kit';
 import { Image } from '@tiptap/extension-image';
-import { Table } from '@tiptap/extension-table';
 import { TableRow } from '@tiptap/extension-table-row';
 import { TableCell } from '@tiptap/extension-table-cell';
 import { TableHeader } from '@tiptap/extension-table-header';
 import { Markdown } from 'tiptap-markdown';
+import { Collaboration, isChangeOrigin } from '@tiptap/extension-collaboration';
+import * as Y from 'yjs';
 import BubbleMenuExtension from '@tiptap/extension-bubble-menu';
 import BarChartExtension from './extensions/BarChartExtension';
 import CodeBlockExtension from './extensions/CodeBlockExtension';
+import CustomTable from './extensions/TableExtension';
+import HeadingExtension from './extensions/HeadingExtension';
+import WikiLinkExtension from './extensions/WikiLinkExtension';
+import SearchReplaceExtension from './extensions/SearchReplaceExtension';
+import WikiLinkMenu, { WikiLinkMenuHandle } from './WikiLinkMenu';
+import BacklinksPanel from './BacklinksPanel';
+import FindReplaceBar from './FindReplaceBar';
+import VersionDiffModal from './VersionDiffModal';
+import SectionRestoreModal from './SectionRestoreModal';
 import TranslatorModal from './TranslatorModal';
 import ShareModal from './ShareModal';
 import { uploadImageToImgBB } from '../services/imgbb';
+import { collaborationUrl, createCollaborationProvider } from '../lib/collaboration';
 import { useAuth } from '../contexts/AuthContext';
-
-// Custom Table extension to support layout modes
-const CustomTable = Table.extend({
-  addAttributes() {
-    return {
-      ...this.parent?.(),
-      layoutMode: {
-        default: 'fixed',
-        parseHTML: element => element.getAttribute('data-layout-mode'),
-        renderHTML: attributes => {
-          return {
-            'data-layout-mode': attributes.layoutMode,
-            style: attributes.layoutMode === 'fixed'
-              ? 'table-layout: fixed; width: 100%'
-              : 'table-layout: auto; width: auto; min-width: 100%',
-          }
-        },
-      },
-    }
-  }
-});
+import { useProjectRepository } from '../contexts/ProjectRepositoryContext';
+import { useCollapsedNodes } from '../hooks/useCollapsedNodes';
+import { useAutoVersions } from '../hooks/useAutoVersions';
 
 interface EditorProps {
   project: Project;
   onBack: () => void;
   onSave: (project: Project) => void;
   onSaveVersion?: (content: string, title: string) => void;
+  // The user's projects, for `[[...]]` links and backlinks
+  projects?: Project[];
+  onOpenProject?: (projectId: string, headingId?: string) => void;
+  // Section to scroll to once the document has loaded
+  focusHeadingId?: string | null;
 }
 
-export default function Editor({ project, onBack, onSave, onSaveVersion }: EditorProps) {
+// Without a reachable collaboration server (e.g. a static deploy) the editor
+// falls back to a local document after this long
+const COLLAB_CONNECT_TIMEOUT_MS = 8000;
+
+const AUTO_VERSION_REASONS: Record<AutoVersionReason, string> = {
+  'interval': 'Автоснимок во время работы',
+  'session-end': 'Автоснимок в конце сеанса',
+  'before-restore': 'Автоснимок перед восстановлением версии',
+  'before-bulk-edit': 'Автоснимок перед изменением структуры на карте',
+};
+
+export default function Editor({ project, onBack, onSave, onSaveVersion, projects = [], onOpenProject, focusHeadingId }: EditorProps) {
   const { user } = useAuth();
+  const repository = useProjectRepository();
   const [content, setContent] = useState(project.content);
   const [title, setTitle] = useState(project.title);
   const [viewMode, setViewMode] = useState<ProjectType>(project.type);
+  const [mindmapLayout, setMindmapLayout] = useState<MindmapLayout>(project.mindmapLayout ?? 'force');
+  const [collapsedNodes, setCollapsedNodes] = useCollapsedNodes(project.id);
+  const autoVersions = useAutoVersions({ projectId: project.id, title, content });
   const [tableModal, setTableModal] = useState<{ isOpen: boolean; rows: number; cols: number }>({ isOpen: false, rows: 3, cols: 3 });
   const [translatorModal, setTranslatorModal] = useState<{ isOpen: boolean; text: string }>({ isOpen: false, text: '' });
   const [shareModalOpen, setShareModalOpen] = useState(false);
   const [historyModalOpen, setHistoryModalOpen] = useState(false);
   const [versions, setVersions] = useState<ProjectVersion[]>([]);
   const [versionToRestore, setVersionToRestore] = useState<ProjectVersion | null>(null);
+  // Version opened in the diff view
+  const [diffVersionId, setDiffVersionId] = useState<string | null>(null);
+  const [showAutoVersions, setShowAutoVersions] = useState(true);
+  // Version whose sections are being picked for a partial restore
+  const [sectionRestoreVersion, setSectionRestoreVersion] = useState<ProjectVersion | null>(null);
   const [editingVersionId, setEditingVersionId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState("");
   const [editorStateToken, setEditorStateToken] = useState(0);
   const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'idle'>('idle');
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const initialLoadRef = useRef(true);
-  const [remoteCursors, setRemoteCursors] = useState<Record<string, { name: string; color: string; line: number; pos: number }>>({});
-
+  // Set by local edits only: remote Yjs updates must not trigger a snapshot write
+  const dirtyRef = useRef(false);
+  // 'offline': the document is edited locally and only the Markdown snapshot is saved
+  const [collabStatus, setCollabStatus] = useState<'connecting' | 'synced' | 'offline'>(collaborationUrl ? 'connecting' : 'offline');
+  // The server grants view-only access to projects that are only publicly viewable
+  const [collabReadOnly, setCollabReadOnly] = useState(false);
+  const canEdit = !!user && (project.ownerId === user.uid || !!project.isPublicEdit) && !collabReadOnly;
+  // Snapshot saves made offline carry this, so the server re-seeds its shared document from them
+  const offlineEdit = () => (collabStatus === 'offline' ? { offlineEditedAt: Date.now() } : {});
+  const [remoteCursors, setRemoteCursors] = useState<Record<string, RemoteCursor>>({});
+  const mindmapRef = useRef<MindmapGraphHandle>(null);
+  const [backlinksOpen, setBacklinksOpen] = useState(false);
+  const [findOpen, setFindOpen] = useState(false);
+  const [findFocusToken, setFindFocusToken] = useState(0);
+  const [wikiSuggestion, setWikiSuggestion] = useState<{
+    items: WikiLinkSuggestion[];
+    rect: DOMRect | null;
+    command: (attributes: WikiLinkAttributes) => void;
+  } | null>(null);
+  const wikiMenuRef = useRef<WikiLinkMenuHandle>(null);
+  // Read by the editor extensions, which are created once per document
+  const projectsRef = useRef(projects);
+  projectsRef.current = projects;
+  const wikiLinkNavigateRef = useRef<(link: WikiLinkAttributes) => void>(() => {});
+
+  // Shared CRDT document for this project, synced through the Hocuspocus server
+  const ydoc = useMemo(() => new Y.Doc(), [project.id]);
 
-  // Stabilized Save: 50ms debounce batches fast typing and prevents race conditions
   useEffect(() => {
-    if (initialLoadRef.current) {
-      initialLoadRef.current = false;
+    const provider = createCollaborationProvider(project.id, ydoc);
+    if (!provider) {
+      setCollabStatus('offline');
       return;
     }
+    setCollabStatus('connecting');
+    // Once offline the provider is gone for good, so local edits are never merged
+    // into a shared document that may have been seeded separately
+    const goOffline = () => {
+      provider.destroy();
+      setCollabStatus('offline');
+    };
+    const timeout = setTimeout(goOffline, COLLAB_CONNECT_TIMEOUT_MS);
+    provider.on('synced', () => {
+      clearTimeout(timeout);
+      setCollabReadOnly(provider.authorizedScope === 'readonly');
+      setCollabStatus('synced');
+    });
+    provider.on('authenticationFailed', () => {
+      clearTimeout(timeout);
+      goOffline();
+    });
+    return () => {
+      clearTimeout(timeout);
+      provider.destroy();
+    };
+  }, [project.id, ydoc]);
+
+  // Markdown snapshot save: the Y.Doc is the source of truth while editing,
+  // `content` is derived from it for the Dashboard, PublicViewer and mindmap
+  useEffect(() => {
+    if (!dirtyRef.current) return;
 
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
 
     saveTimeoutRef.current = setTimeout(() => {
       if (!user) return;
+      dirtyRef.current = false;
       setSaveStatus('saving');
       onSave({
         ...project,
         title,
         content,
         type: viewMode,
+        mindmapLayout,
         lastModified: Date.now(),
         lastModifiedBy: user.uid,
+        ...offlineEdit(),
       });
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 2000);
-    }, 50);
+    }, 500);
 
     return () => {
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     };
-  }, [content, title, user]);
+  }, [content, title, mindmapLayout, user]);
 
-  // Firebase Realtime Database listener — sync remote changes
+  // Project listener — sync remote title changes.
+  // Content arrives through Yjs, so the snapshot is never applied to the editor here.
   useEffect(() => {
-    const projectRef = ref(database, `projects/${project.id}`);
-    const unsubscribe = onValue(projectRef, (snapshot) => {
-      const data = snapshot.val();
+    const unsubscribe = repository.subscribeToProject(project.id, (data) => {
       if (!data || !user) return;
 
       // Robust Sync: skip updates triggered by ourselves
@@ -114,47 +189,30 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
       if (data.title && data.title !== title) {
         setTitle(data.title);
       }
-
-      // Update content if changed remotely
-      if (data.content !== undefined && data.content !== content) {
-        setContent(data.content);
-        if (editor) {
-          const currentMarkdown = (editor.storage as any)?.markdown?.getMarkdown?.();
-          if (data.content !== currentMarkdown) {
-            editor.commands.setContent(data.content, { emitUpdate: false });
-          }
-        }
-      }
-    });
+    }, (error) => console.error(error));
 
     return () => unsubscribe();
-  }, [project.id, user]);
+  }, [project.id, user, repository]);
 
-  // Track and display remote cursors via Firebase
+  // Track and display remote cursors
   useEffect(() => {
     if (!user) return;
-    const cursorsRef = ref(database, `cursors/${project.id}`);
-    const unsubscribe = onValue(cursorsRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        const others: Record<string, { name: string; color: string; line: number; pos: number }> = {};
-        for (const [uid, cursor] of Object.entries(data)) {
-          if (uid !== user.uid) {
-            others[uid] = cursor as { name: string; color: string; line: number; pos: number };
-          }
+    const unsubscribe = repository.subscribeToPresence(project.id, (cursors) => {
+      const others: Record<string, RemoteCursor> = {};
+      for (const [uid, cursor] of Object.entries(cursors)) {
+        if (uid !== user.uid) {
+          others[uid] = cursor;
         }
-        setRemoteCursors(others);
-      } else {
-        setRemoteCursors({});
       }
+      setRemoteCursors(others);
     });
 
     // Cleanup own cursor on unmount
     return () => {
       unsubscribe();
-      set(ref(database, `cursors/${project.id}/${user.uid}`), null);
+      repository.setPresence(project.id, user.uid, null);
     };
-  }, [project.id, user]);
+  }, [project.id, user, repository]);
 
   // Force text mode on mobile
   useEffect(() => {
@@ -180,7 +238,7 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
     if (!versionToDelete) return;
 
     try {
-      await remove(ref(database, `project_versions/${project.id}/${versionToDelete}`));
+      await repository.deleteVersion(project.id, versionToDelete);
       // Update local state
       setVersions(prev => prev.filter(v => v.id !== versionToDelete));
       setVersionToDelete(null);
@@ -197,7 +255,7 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
 
   const saveRenamedVersion = async (versionId: string) => {
     try {
-      await update(ref(database, `project_versions/${project.id}/${versionId}`), {
+      await repository.patchVersion(project.id, versionId, {
         title: editingTitle
       });
       // Update local state
@@ -217,17 +275,39 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
   };
 
   // Parse headings for mindmap - Memoized to prevent re-renders on every editor transaction
+  const markdownTree = useMemo(() => parseMarkdown(content), [content]);
   const headingTree = useMemo(() => {
-    const tree = parseMarkdownHeadings(content);
+    const tree = parseMarkdownHeadings(content, markdownTree);
     tree.text = title || 'Untitled';
     return tree;
-  }, [content, title]);
+  }, [content, markdownTree, title]);
+
+  const crossLinks = useMemo(() => findCrossLinks(markdownTree, headingTree), [markdownTree, headingTree]);
+
+  const currentProject = useMemo(() => ({ ...project, title, content }), [project, title, content]);
+  const currentProjectRef = useRef(currentProject);
+  currentProjectRef.current = currentProject;
+
+  // Only the title decides what links here, so typing in the body doesn't rescan other projects
+  const backlinks = useMemo(() => findBacklinks(projects, { id: project.id, title }), [projects, project.id, title]);
+
+  const openFind = () => {
+    setFindOpen(true);
+    setFindFocusToken(token => token + 1);
+  };
 
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
         codeBlock: false,
+        heading: false,
+        // History is handled per-user by the Collaboration extension
+        undoRedo: false,
       }),
+      Collaboration.configure({
+        document: ydoc,
+      }),
+      HeadingExtension,
       Image,
       CustomTable.configure({
         resizable: true,
@@ -238,6 +318,31 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
       Markdown,
       BarChartExtension,
       CodeBlockExtension,
+      WikiLinkExtension.configure({
+        suggestion: {
+          items: ({ query }) => suggestWikiLinks(query, projectsRef.current, currentProjectRef.current),
+          render: () => {
+            const show = (props: { items: WikiLinkSuggestion[]; clientRect?: (() => DOMRect | null) | null; command: (attributes: WikiLinkAttributes) => void }) =>
+              setWikiSuggestion({ items: props.items, rect: props.clientRect?.() ?? null, command: props.command });
+            return {
+              onStart: show,
+              onUpdate: show,
+              onKeyDown: ({ event }) => {
+                if (event.key === 'Escape') {
+                  setWikiSuggestion(null);
+                  return true;
+                }
+                return wikiMenuRef.current?.onKeyDown(event) ?? false;
+              },
+              onExit: () => setWikiSuggestion(null),
+            };
+          },
+        },
+        onNavigate: (link) => wikiLinkNavigateRef.current(link),
+      }),
+      SearchReplaceExtension.configure({
+        onOpen: openFind,
+      }),
       BubbleMenuExtension.configure({
         pluginKey: 'tableBubbleMenu',
         shouldShow: ({ editor }) => {
@@ -245,14 +350,20 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
         },
       }),
     ],
-    content: project.content,
-    onUpdate: ({ editor }) => {
-      const markdown = editor.storage.markdown.getMarkdown();
+    // Read-only until the shared document is synced, so nothing typed offline
+    // gets merged on top of the server's content
+    editable: false,
+    onUpdate: ({ editor, transaction }) => {
+      const markdown = (editor.storage as any).markdown.getMarkdown();
+      if (!isChangeOrigin(transaction)) {
+        dirtyRef.current = true;
+        autoVersions.markEdited();
+      }
       setContent(markdown);
     },
     onTransaction: ({ editor: e }) => {
       setEditorStateToken(prev => prev + 1);
-      // Write cursor position to Firebase for remote users
+      // Publish cursor position for remote users
       if (user && e) {
         const pos = e.state.selection.anchor;
         const resolved = e.state.doc.resolve(pos);
@@ -262,7 +373,7 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
           if (node.isBlock) line++;
           return true;
         });
-        set(ref(database, `cursors/${project.id}/${user.uid}`), {
+        repository.setPresence(project.id, user.uid, {
           name: user.email || user.displayName || 'Гость',
           color: '#' + user.uid.slice(0, 6),
           line: line,
@@ -276,42 +387,41 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
         class: 'prose prose-invert max-w-none focus:outline-none min-h-full p-4 md:p-8',
       },
     },
-  });
+  }, [ydoc]);
 
-  // Update editor content if project content changes externally (e.g. from mindmap)
+  // The server seeds a fresh shared document from the stored Markdown snapshot,
+  // offline the local one is loaded from it here
   useEffect(() => {
-    if (editor) {
-      const currentMarkdown = (editor.storage as any)?.markdown?.getMarkdown?.();
-      if (content !== currentMarkdown) {
-        editor.commands.setContent(content, { emitUpdate: false });
-      }
+    if (!editor || collabStatus !== 'offline') return;
+    if (ydoc.getXmlFragment('default').length === 0 && project.content) {
+      editor.commands.setContent(project.content, { emitUpdate: false });
+      // Picks up the heading ids assigned on load without marking the document edited
+      setContent((editor.storage as any).markdown.getMarkdown());
     }
-  }, [content, editor]);
+  }, [editor, collabStatus, ydoc]);
+
+  useEffect(() => {
+    if (!editor || collabStatus === 'connecting') return;
+    editor.setEditable(canEdit);
+  }, [editor, collabStatus, canEdit]);
 
   useEffect(() => {
     if (historyModalOpen) {
-      const versionsRef = ref(database, `project_versions/${project.id}`);
-      get(versionsRef).then((snapshot) => {
-        if (snapshot.exists()) {
-          const versionsList = Object.values(snapshot.val()) as ProjectVersion[];
-          versionsList.sort((a, b) => b.timestamp - a.timestamp);
-          setVersions(versionsList);
-        } else {
-          setVersions([]);
-        }
-      });
+      repository.listVersions(project.id).then(setVersions);
     }
-  }, [historyModalOpen, project.id]);
+  }, [historyModalOpen, project.id, repository]);
+
+  const visibleVersions = showAutoVersions ? versions : versions.filter(version => version.kind !== 'auto');
 
   const handleRestoreClick = (version: ProjectVersion) => {
     setVersionToRestore(version);
   };
 
   const confirmRestore = () => {
-    if (!versionToRestore) return;
+    if (!versionToRestore || !canEdit) return;
 
     const version = versionToRestore;
-    console.log("Restoring version content:", version.content);
+    autoVersions.snapshot('before-restore');
 
     setContent(version.content);
     setTitle(version.title);
@@ -321,6 +431,7 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
     }
 
     setVersionToRestore(null);
+    setDiffVersionId(null);
     setHistoryModalOpen(false);
 
     // Save immediately
@@ -329,8 +440,8 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
       title: version.title,
       content: version.content,
       lastModified: Date.now(),
+      ...offlineEdit(),
     });
-    console.log("Version restored and saved.");
   };
 
   const handleBack = () => {
@@ -339,11 +450,18 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
       title,
       content,
       type: viewMode,
+      mindmapLayout,
       lastModified: Date.now(),
+      ...(dirtyRef.current ? offlineEdit() : {}),
     });
     onBack();
   };
 
+  const handleLayoutChange = (layout: MindmapLayout) => {
+    dirtyRef.current = true;
+    setMindmapLayout(layout);
+  };
+
   const handleUpdateProject = (updates: Partial<Project>) => {
     onSave({ ...project, ...updates });
   };
@@ -376,121 +494,130 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
     setTableModal({ ...tableModal, isOpen: false });
   };
 
-  const handleNodeClick = useCallback((lineIndex: number) => {
+  const handleNodeClick = useCallback((id: string) => {
     if (!editor) return;
 
-    const findNodeByLine = (node: any, line: number): any => {
-      if (node.line === line) return node;
-      for (const child of node.children) {
-        const found = findNodeByLine(child, line);
-        if (found) return found;
+    // Headings carry the same persistent id as their mindmap node
+    let foundPos = -1;
+    editor.state.doc.descendants((node, pos) => {
+      if (foundPos !== -1) return false;
+      if (node.type.name === 'heading' && node.attrs.id === id) {
+        foundPos = pos;
+        return false;
       }
-      return null;
-    };
-
-    const targetNode = findNodeByLine(headingTree, lineIndex);
-
-    if (targetNode) {
-      let foundPos = -1;
-      editor.state.doc.descendants((node, pos) => {
-        if (foundPos !== -1) return false;
-        if (node.type.name === 'heading' && node.attrs.level === targetNode.level) {
-          if (node.textContent === targetNode.text) {
-            foundPos = pos;
-            return false;
-          }
-        }
-        return true;
-      });
+      return true;
+    });
 
-      if (foundPos !== -1) {
-        editor.chain().focus().setTextSelection(foundPos).scrollIntoView().run();
-      } else {
-        editor.chain().focus().run();
-      }
+    if (foundPos !== -1) {
+      editor.chain().focus().setTextSelection(foundPos + 1).scrollIntoView().run();
     } else {
       editor.chain().focus().run();
     }
-  }, [editor, headingTree]);
+  }, [editor]);
 
-  const handleNodeAdd = (parentId: string, text: string) => {
-    const findNode = (node: any): any => {
-      if (node.id === parentId) return node;
-      for (const child of node.children) {
-        const found = findNode(child);
-        if (found) return found;
-      }
-      return null;
-    };
+  // Opened from a link to one of this project's sections
+  useEffect(() => {
+    if (collabStatus !== 'connecting' && focusHeadingId) handleNodeClick(focusHeadingId);
+  }, [collabStatus, focusHeadingId, handleNodeClick]);
+
+  wikiLinkNavigateRef.current = (link: WikiLinkAttributes) => {
+    const target = resolveWikiLink(link, projects, currentProject);
+    if (!target) {
+      alert(`Проект «${link.target}» не найден.`);
+      return;
+    }
+    if (target.projectId !== project.id) {
+      onOpenProject?.(target.projectId, target.headingId);
+    } else if (target.headingId) {
+      handleNodeClick(target.headingId);
+    }
+  };
+
+  // Mindmap edits rewrite the Markdown and load it back in one local transaction,
+  // so each of them is a single step in the editor's undo history
+  const applyMarkdown = (newMarkdown: string | null) => {
+    // Mindmap and history edits go around the editor's own editable flag
+    if (newMarkdown === null || !canEdit) return;
+    setContent(newMarkdown);
+    if (editor) {
+      editor.commands.setContent(newMarkdown);
+    }
+  };
+
+  // Picked sections of an old version merged in with a single setContent,
+  // so one undo takes the whole partial restore back
+  const handleRestoreSections = (ids: string[]) => {
+    if (!sectionRestoreVersion) return;
+    const result = restoreSections(content, sectionRestoreVersion.content, ids);
+    if (result !== null) {
+      autoVersions.snapshot('before-restore');
+      applyMarkdown(result);
+    }
+    setSectionRestoreVersion(null);
+    setHistoryModalOpen(false);
+  };
 
-    const parentNode = findNode(headingTree);
+  const handleNodeAdd = (parentId: string, text: string) => {
+    const parentNode = findHeadingNode(headingTree, parentId);
     if (!parentNode) return;
 
     const newLevel = parentNode.level + 1;
     const hashes = '#'.repeat(Math.min(newLevel, 6));
 
-    let insertIndex = content.length;
-
-    if (parentId !== 'root') {
-      const lines = content.split('\n');
-      const parentLineIndex = parentNode.line;
-      for (let i = parentLineIndex + 1; i < lines.length; i++) {
-        const match = lines[i].match(/^(#{1,6})\s/);
-        if (match) {
-          const level = match[1].length;
-          if (level <= parentNode.level) {
-            insertIndex = lines.slice(0, i).join('\n').length + 1;
-            break;
-          }
-        }
-      }
-    }
+    // New child goes at the end of the parent's section
+    const insertIndex = parentNode.end;
 
     const before = content.substring(0, insertIndex);
     const after = content.substring(insertIndex);
     const toInsert = (before.endsWith('\n') ? '' : '\n') + `${hashes} ${text}` + (after.startsWith('\n') ? '' : '\n');
 
-    const newMarkdown = before + toInsert + after;
-    setContent(newMarkdown);
-    if (editor) {
-      editor.commands.setContent(newMarkdown);
-    }
+    applyMarkdown(before + toInsert + after);
   };
 
-  const handleNodeDelete = (id: string) => {
-    const findNode = (node: any): any => {
-      if (node.id === id) return node;
-      for (const child of node.children) {
-        const found = findNode(child);
-        if (found) return found;
-      }
-      return null;
-    };
+  // Edits computed first, so a no-op drop or a rejected level shift leaves no snapshot behind
+  const applyStructureEdit = (newMarkdown: string | null) => {
+    if (newMarkdown === null || newMarkdown === content || !canEdit) return;
+    autoVersions.snapshot('before-bulk-edit');
+    applyMarkdown(newMarkdown);
+  };
 
-    const nodeToDelete = findNode(headingTree);
+  const handleNodeDelete = (id: string) => {
+    const nodeToDelete = findHeadingNode(headingTree, id);
     if (!nodeToDelete || nodeToDelete.id === 'root') return;
 
-    const lines = content.split('\n');
-    const startLine = nodeToDelete.line;
-    let endLine = lines.length;
-
-    for (let i = startLine + 1; i < lines.length; i++) {
-      const match = lines[i].match(/^(#{1,6})\s/);
-      if (match) {
-        const level = match[1].length;
-        if (level <= nodeToDelete.level) {
-          endLine = i;
-          break;
-        }
-      }
-    }
+    // Remove the heading together with its whole section
+    applyStructureEdit(content.slice(0, nodeToDelete.start) + content.slice(nodeToDelete.end));
+  };
 
-    const newLines = [...lines.slice(0, startLine), ...lines.slice(endLine)];
-    const newMarkdown = newLines.join('\n');
-    setContent(newMarkdown);
-    if (editor) {
-      editor.commands.setContent(newMarkdown);
+  const handleNodeMove = (id: string, parentId: string, index: number) => {
+    // Cut the section and paste it under the new parent, re-leveling nested headings
+    applyStructureEdit(moveSection(content, headingTree, id, parentId, index));
+  };
+
+  const handleNodeRename = (id: string, text: string) => {
+    // The root node stands for the project itself
+    if (id === 'root') {
+      dirtyRef.current = true;
+      setTitle(text);
+      return;
     }
+    applyMarkdown(renameSection(content, headingTree, id, text));
+  };
+
+  const handleNodeAddSibling = (id: string, text: string) => {
+    applyMarkdown(insertSiblingSection(content, headingTree, id, text));
+  };
+
+  const handleNodeLevelChange = (id: string, delta: number) => {
+    applyStructureEdit(shiftSectionLevel(content, headingTree, id, delta));
+  };
+
+  const handleNodeDuplicate = (id: string) => {
+    applyStructureEdit(duplicateSection(content, headingTree, id));
+  };
+
+  const handleNodeStyleChange = (id: string, changes: HeadingAttributes) => {
+    applyMarkdown(setSectionAttributes(content, headingTree, id, changes));
   };
 
   // Swipe handlers
@@ -575,12 +702,22 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
           <input
             type="text"
             value={title}
-            onChange={(e) => setTitle(e.target.value)}
+            onChange={(e) => {
+              dirtyRef.current = true;
+              setTitle(e.target.value);
+            }}
             className="bg-transparent border-none outline-none font-medium text-sm w-32 md:w-64 placeholder-zinc-600 hidden md:block"
             placeholder="Без названия"
           />
           {/* Auto-save status indicator */}
           <span className="text-xs text-zinc-500 hidden md:inline-flex items-center gap-1 ml-2">
+            {collabStatus === 'connecting' && <><span className="w-1.5 h-1.5 rounded-full bg-zinc-500 animate-pulse" /> Подключение...</>}
+            {collabStatus === 'offline' && (
+              <span className="inline-flex items-center gap-1" title="Сервер совместного редактирования недоступен: изменения сохраняются, но не видны другим в реальном времени">
+                <span className="w-1.5 h-1.5 rounded-full bg-zinc-500" /> Офлайн
+              </span>
+            )}
+            {collabStatus !== 'connecting' && !canEdit && <><Lock size={12} /> Только просмотр</>}
             {saveStatus === 'saving' && <><span className="w-1.5 h-1.5 rounded-full bg-yellow-400 animate-pulse" /> Сохранение...</>}
             {saveStatus === 'saved' && <><span className="w-1.5 h-1.5 rounded-full bg-green-400" /> Сохранено</>}
           </span>
@@ -589,6 +726,13 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
         <div className="flex items-center gap-1 bg-zinc-900/50 p-1 rounded-lg border border-white/5 shrink-0">
           {/* Formatting buttons - Hidden on Mobile */}
           <div className="hidden md:flex items-center gap-1">
+            <button onClick={() => editor.chain().focus().undo().run()} disabled={!editor.can().undo()} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent" title="Отменить">
+              <Undo2 size={16} />
+            </button>
+            <button onClick={() => editor.chain().focus().redo().run()} disabled={!editor.can().redo()} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent" title="Повторить">
+              <Redo2 size={16} />
+            </button>
+            <div className="w-px h-4 bg-white/10 mx-1" />
             <button onClick={() => editor.chain().focus().toggleBold().run()} className={`p-1.5 rounded hover:bg-zinc-800 ${editor.isActive('bold') ? 'bg-zinc-700 text-white' : 'text-zinc-400'}`} title="Жирный">
               <Bold size={16} />
             </button>
@@ -633,6 +777,13 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
           >
             <Languages size={16} />
           </button>
+          <button
+            onClick={openFind}
+            className={`p-1.5 rounded hover:bg-zinc-800 ${findOpen ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'}`}
+            title="Найти и заменить (Ctrl+F)"
+          >
+            <Search size={16} />
+          </button>
         </div>
 
         {/* Table Controls (Visible when table is active) */}
@@ -720,6 +871,23 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
           >
             <History size={16} />
           </button>
+          <button
+            onClick={() => setBacklinksOpen(!backlinksOpen)}
+            className={`relative p-1.5 rounded transition-colors ${backlinksOpen ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+            title="Обратные ссылки"
+          >
+            <Link2 size={16} />
+            {backlinks.length > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-blue-600 text-[9px] leading-[14px] text-white text-center">
+                {backlinks.length}
+              </span>
+            )}
+          </button>
+          <MindmapExportMenu
+            disabled={viewMode === 'text'}
+            onExport={async (format, scale) => mindmapRef.current?.exportImage(format, title || 'Untitled', scale)}
+          />
+          <OutlineExportMenu title={title || 'Untitled'} content={content} />
           <button
             onClick={() => setShareModalOpen(true)}
             className="flex items-center gap-2 px-2 md:px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors ml-2"
@@ -799,12 +967,15 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
       >
         {(viewMode === 'text' || viewMode === 'both') && (
           <div className={`h-full flex flex-col ${viewMode === 'both' ? 'w-full md:w-1/2 md:border-r border-white/10' : 'w-full max-w-3xl mx-auto'} overflow-y-auto`}>
+            {findOpen && (
+              <FindReplaceBar editor={editor} focusToken={findFocusToken} onClose={() => setFindOpen(false)} />
+            )}
             <div className="relative min-h-full">
               {/* Remote Cursors Overlay - Now inside the relative container that scrolls */}
               <div className="absolute inset-0 pointer-events-none z-10 overflow-hidden">
                 {Object.entries(remoteCursors).map(([uid, cursorData]) => {
                   if (!editor) return null;
-                  const cursor = cursorData as { name: string; color: string; line: number; pos: number };
+                  const cursor = cursorData as RemoteCursor;
                   try {
                     const pos = Math.min(cursor.pos, editor.state.doc.content.size);
                     const coords = editor.view.coordsAtPos(pos);
@@ -848,16 +1019,45 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
         {(viewMode === 'mindmap' || viewMode === 'both') && (
           <div className={`h-full ${viewMode === 'both' ? 'hidden md:block md:w-1/2' : 'w-full'}`}>
             <MindmapGraph
+              ref={mindmapRef}
               data={headingTree}
               onNodeClick={handleNodeClick}
               readOnly={false}
+              layout={mindmapLayout}
+              onLayoutChange={handleLayoutChange}
+              collapsedIds={collapsedNodes}
+              crossLinks={crossLinks}
+              onCollapsedChange={setCollapsedNodes}
               onNodeAdd={handleNodeAdd}
               onNodeDelete={handleNodeDelete}
+              onNodeMove={handleNodeMove}
+              onNodeRename={handleNodeRename}
+              onNodeAddSibling={handleNodeAddSibling}
+              onNodeLevelChange={handleNodeLevelChange}
+              onNodeDuplicate={handleNodeDuplicate}
+              onNodeStyleChange={handleNodeStyleChange}
             />
           </div>
         )}
+
+        {backlinksOpen && (
+          <BacklinksPanel
+            backlinks={backlinks}
+            onOpen={(projectId, headingId) => onOpenProject?.(projectId, headingId)}
+            onClose={() => setBacklinksOpen(false)}
+          />
+        )}
       </div>
 
+      {wikiSuggestion && (
+        <WikiLinkMenu
+          ref={wikiMenuRef}
+          items={wikiSuggestion.items}
+          rect={wikiSuggestion.rect}
+          onSelect={(item) => wikiSuggestion.command(item.attributes)}
+        />
+      )}
+
       {/* Table Creation Modal */}
       {tableModal.isOpen && (
         <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-[60]" onClick={() => setTableModal({ ...tableModal, isOpen: false })}>
@@ -928,19 +1128,39 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
             className="bg-zinc-900 p-6 rounded-xl border border-white/10 w-[500px] shadow-2xl max-h-[80vh] flex flex-col"
             onClick={e => e.stopPropagation()}
           >
-            <h3 className="text-lg font-medium mb-4 text-white flex items-center gap-2">
-              <History size={20} />
-              История версий
-            </h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-white flex items-center gap-2">
+                <History size={20} />
+                История версий
+              </h3>
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showAutoVersions}
+                  onChange={(e) => setShowAutoVersions(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                Автоснимки
+              </label>
+            </div>
 
             <div className="flex-1 overflow-y-auto space-y-2 mb-4 pr-2">
-              {versions.length === 0 ? (
+              {visibleVersions.length === 0 ? (
                 <p className="text-zinc-500 text-center py-8">Нет сохраненных версий</p>
               ) : (
-                versions.map((version) => (
+                visibleVersions.map((version) => (
                   <div key={version.id} className="flex items-center justify-between p-3 bg-zinc-950/50 rounded-lg border border-white/5 hover:border-white/20 transition-colors group">
                     <div className="flex-1 mr-4">
-                      <div className="font-medium text-sm text-white mb-0.5">{new Date(version.timestamp).toLocaleString()}</div>
+                      <div className="flex items-center gap-2 font-medium text-sm text-white mb-0.5">
+                        {new Date(version.timestamp).toLocaleString()}
+                        {version.kind === 'auto' ? (
+                          <span className="px-1.5 rounded bg-zinc-800 text-[10px] font-normal text-zinc-400" title={AUTO_VERSION_REASONS[version.reason ?? 'interval']}>
+                            авто
+                          </span>
+                        ) : (
+                          <span className="px-1.5 rounded bg-blue-500/15 text-[10px] font-normal text-blue-300">вручную</span>
+                        )}
+                      </div>
 
                       {editingVersionId === version.id ? (
                         <div className="flex items-center gap-2">
@@ -965,6 +1185,20 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
                     </div>
 
                     <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setDiffVersionId(version.id)}
+                        className="p-1.5 text-zinc-500 hover:text-white transition-colors"
+                        title="Сравнить"
+                      >
+                        <GitCompare size={14} />
+                      </button>
+                      <button
+                        onClick={() => setSectionRestoreVersion(version)}
+                        className="p-1.5 text-zinc-500 hover:text-white transition-colors"
+                        title="Восстановить разделы"
+                      >
+                        <ListTree size={14} />
+                      </button>
                       <button
                         onClick={() => handleRestoreClick(version)}
                         className="px-3 py-1.5 text-xs bg-zinc-800 hover:bg-zinc-700 text-white rounded transition-colors"
@@ -996,6 +1230,25 @@ export default function Editor({ project, onBack, onSave, onSaveVersion }: Edito
         </div>
       )}
 
+      {diffVersionId && (
+        <VersionDiffModal
+          versions={versions}
+          currentContent={content}
+          initialVersionId={diffVersionId}
+          onRestore={handleRestoreClick}
+          onClose={() => setDiffVersionId(null)}
+        />
+      )}
+
+      {sectionRestoreVersion && (
+        <SectionRestoreModal
+          version={sectionRestoreVersion}
+          currentContent={content}
+          onRestore={handleRestoreSections}
+          onClose={() => setSectionRestoreVersion(null)}
+        />
+      )}
+
       {/* Restore Confirmation Modal */}
       {versionToRestore && (
         <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-[70]" onClick={() => setVersionToRestore(null)}>
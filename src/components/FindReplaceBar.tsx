@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Editor } from '@tiptap/react';
+import { CaseSensitive, ChevronDown, ChevronRight, ChevronUp, ListTree, Regex, WholeWord, X } from 'lucide-react';
+import { SearchOptions, findSectionIdAt, searchPluginKey } from './extensions/SearchReplaceExtension';
+
+interface FindReplaceBarProps {
+  editor: Editor;
+  // Changes every time Mod-F is pressed, to refocus the query field
+  focusToken: number;
+  onClose: () => void;
+}
+
+type ToggleOption = 'caseSensitive' | 'wholeWord' | 'regex';
+
+const TOGGLES: { option: ToggleOption; icon: React.ElementType; title: string }[] = [
+  { option: 'caseSensitive', icon: CaseSensitive, title: 'Учитывать регистр' },
+  { option: 'wholeWord', icon: WholeWord, title: 'Слово целиком' },
+  { option: 'regex', icon: Regex, title: 'Регулярное выражение' },
+];
+
+// Find & replace over the TipTap document, including collapsed code blocks.
+// Matches are decorations kept by SearchReplaceExtension.
+export default function FindReplaceBar({ editor, focusToken, onClose }: FindReplaceBarProps) {
+  const queryRef = useRef<HTMLInputElement>(null);
+  const [replaceOpen, setReplaceOpen] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  const search = searchPluginKey.getState(editor.state);
+
+  useEffect(() => {
+    // Start from the selected text, like the browser's find, unless it is
+    // just the current match
+    const { from, to, empty } = editor.state.selection;
+    const current = search?.matches[search.current];
+    const selected = empty || (current?.from === from && current?.to === to) ? '' : editor.state.doc.textBetween(from, to, ' ');
+    if (selected && !selected.includes('\n')) editor.commands.setSearch({ query: selected });
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, [focusToken]);
+
+  useEffect(() => () => {
+    if (!editor.isDestroyed) editor.commands.clearSearch();
+  }, [editor]);
+
+  if (!search) return null;
+
+  const setSearch = (options: Partial<SearchOptions>) => editor.commands.setSearch(options);
+
+  const toggleSection = () => {
+    setSearch({ sectionId: search.sectionId ? null : findSectionIdAt(editor.state.doc, editor.state.selection.from) });
+  };
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      editor.commands.goToMatch(e.shiftKey ? -1 : 1);
+    }
+    if (e.key === 'Escape') onClose();
+  };
+
+  const handleReplaceKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.ctrlKey || e.metaKey) {
+        editor.commands.replaceAllMatches(replacement);
+      } else {
+        editor.commands.replaceMatch(replacement);
+      }
+    }
+    if (e.key === 'Escape') onClose();
+  };
+
+  // Mod-F inside the bar selects the query instead of opening the browser's find
+  const handleBarKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      queryRef.current?.focus();
+      queryRef.current?.select();
+    }
+  };
+
+  const counter = search.error
+    ? 'Ошибка в выражении'
+    : search.query
+      ? search.matches.length > 0 ? `${search.current + 1} из ${search.matches.length}` : 'Нет совпадений'
+      : '';
+
+  return (
+    <div className="sticky top-0 z-20 flex justify-end px-2 pt-2 pointer-events-none">
+      <div className="pointer-events-auto flex items-start gap-1 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-1.5" onKeyDown={handleBarKeyDown}>
+        <button
+          onClick={() => setReplaceOpen(!replaceOpen)}
+          className="p-1 mt-0.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800"
+          title={replaceOpen ? 'Скрыть замену' : 'Заменить'}
+        >
+          {replaceOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </button>
+
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center gap-1">
+            <div className={`flex items-center bg-zinc-950 border rounded ${search.error ? 'border-red-500/60' : 'border-zinc-700 focus-within:border-blue-500'}`}>
+              <input
+                ref={queryRef}
+                type="text"
+                value={search.query}
+                onChange={(e) => setSearch({ query: e.target.value })}
+                onKeyDown={handleQueryKeyDown}
+                placeholder="Найти"
+                className="w-40 md:w-52 bg-transparent px-2 py-1 text-sm text-white placeholder-zinc-600 outline-none"
+                title={search.error ?? undefined}
+              />
+              {TOGGLES.map(({ option, icon: Icon, title }) => (
+                <button
+                  key={option}
+                  onClick={() => setSearch({ [option]: !search[option] })}
+                  className={`p-1 rounded ${search[option] ? 'bg-blue-600/40 text-white' : 'text-zinc-500 hover:text-white'}`}
+                  title={title}
+                >
+                  <Icon size={14} />
+                </button>
+              ))}
+            </div>
+            <span className={`text-xs w-24 text-center whitespace-nowrap ${search.error ? 'text-red-400' : 'text-zinc-500'}`}>{counter}</span>
+            <button
+              onClick={toggleSection}
+              className={`p-1 rounded ${search.sectionId ? 'bg-blue-600/40 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+              title="Только в текущем разделе"
+            >
+              <ListTree size={14} />
+            </button>
+            <button
+              onClick={() => editor.commands.goToMatch(-1)}
+              disabled={search.matches.length === 0}
+              className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent"
+              title="Предыдущее (Shift+Enter)"
+            >
+              <ChevronUp size={14} />
+            </button>
+            <button
+              onClick={() => editor.commands.goToMatch(1)}
+              disabled={search.matches.length === 0}
+              className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent"
+              title="Следующее (Enter)"
+            >
+              <ChevronDown size={14} />
+            </button>
+            <button onClick={onClose} className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800" title="Закрыть (Esc)">
+              <X size={14} />
+            </button>
+          </div>
+
+          {replaceOpen && (
+            <div className="flex items-center gap-1">
+              <input
+                type="text"
+                value={replacement}
+                onChange={(e) => setReplacement(e.target.value)}
+                onKeyDown={handleReplaceKeyDown}
+                placeholder={search.regex ? 'Заменить ($1 — группа)' : 'Заменить'}
+                className="w-40 md:w-52 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm text-white placeholder-zinc-600 outline-none focus:border-blue-500"
+              />
+              <button
+                onClick={() => editor.commands.replaceMatch(replacement)}
+                disabled={search.matches.length === 0 || !editor.isEditable}
+                className="px-2 py-1 rounded text-xs text-zinc-300 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent"
+              >
+                Заменить
+              </button>
+              <button
+                onClick={() => editor.commands.replaceAllMatches(replacement)}
+                disabled={search.matches.length === 0 || !editor.isEditable}
+                className="px-2 py-1 rounded text-xs text-zinc-300 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent"
+                title="Ctrl+Enter"
+              >
+                Заменить все
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Archive, ChevronDown, ChevronRight, Folder, FolderOpen, FolderPlus, LayoutGrid, Pin, Trash2 } from 'lucide-react';
+import { FolderNode, ProjectScope, joinFolderPath } from '../utils/projectOrganization';
+
+// dataTransfer type of a project card being dragged
+export const PROJECT_DRAG_TYPE = 'application/x-notiont-project';
+
+interface FolderTreeProps {
+  folders: FolderNode[];
+  scope: ProjectScope;
+  counts: { all: number; pinned: number; archive: number; trash: number };
+  onScopeChange: (scope: ProjectScope) => void;
+  // A card dropped on "all" (top level), "pinned", "archive", "trash" or a folder
+  onDropProject: (projectId: string, target: ProjectScope) => void;
+  onCreateFolder: (path: string) => void;
+}
+
+type FixedRow = { target: ProjectScope; label: string; icon: React.ElementType; count: number };
+
+const scopeKey = (scope: ProjectScope) => scope.kind === 'folder' ? `folder:${scope.path}` : scope.kind;
+
+export default function FolderTree({ folders, scope, counts, onScopeChange, onDropProject, onCreateFolder }: FolderTreeProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  // Parent path of the folder being named, '' for the top level
+  const [newFolderParent, setNewFolderParent] = useState<string | null>(null);
+  const [newFolderName, setNewFolderName] = useState('');
+
+  const toggleExpanded = (path: string) => {
+    const next = new Set(expanded);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setExpanded(next);
+  };
+
+  const startNewFolder = (parent: string) => {
+    if (parent) setExpanded(new Set(expanded).add(parent));
+    setNewFolderParent(parent);
+    setNewFolderName('');
+  };
+
+  const confirmNewFolder = () => {
+    const path = newFolderParent !== null && newFolderName.trim() ? joinFolderPath(newFolderParent, newFolderName.replace(/\//g, ' ')) : '';
+    if (path) {
+      onCreateFolder(path);
+      onScopeChange({ kind: 'folder', path });
+    }
+    setNewFolderParent(null);
+  };
+
+  const dropHandlers = (target: ProjectScope) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(PROJECT_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropKey(scopeKey(target));
+    },
+    onDragLeave: () => setDropKey(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropKey(null);
+      const projectId = e.dataTransfer.getData(PROJECT_DRAG_TYPE);
+      if (projectId) onDropProject(projectId, target);
+    },
+  });
+
+  const rowClass = (target: ProjectScope) => {
+    const key = scopeKey(target);
+    if (dropKey === key) return 'bg-blue-500/20 text-white ring-1 ring-blue-500/50';
+    return scopeKey(scope) === key ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:bg-zinc-900 hover:text-white';
+  };
+
+  const newFolderInput = (depth: number) => (
+    <div className="flex items-center gap-1.5 py-1" style={{ paddingLeft: 8 + depth * 14 }}>
+      <Folder size={14} className="shrink-0 text-zinc-500" />
+      <input
+        type="text"
+        value={newFolderName}
+        onChange={(e) => setNewFolderName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') confirmNewFolder();
+          if (e.key === 'Escape') setNewFolderParent(null);
+        }}
+        onBlur={confirmNewFolder}
+        placeholder="Новая папка"
+        className="w-full bg-zinc-950 border border-zinc-700 rounded px-1.5 py-0.5 text-sm text-white outline-none focus:border-blue-500"
+        autoFocus
+      />
+    </div>
+  );
+
+  const renderFolder = (node: FolderNode, depth: number): React.ReactNode => {
+    const target: ProjectScope = { kind: 'folder', path: node.path };
+    const isExpanded = expanded.has(node.path);
+    const Icon = isExpanded ? FolderOpen : Folder;
+    return (
+      <li key={node.path}>
+        <div
+          className={`group flex items-center gap-1 pr-1 py-1 rounded-md cursor-pointer text-sm transition-colors ${rowClass(target)}`}
+          style={{ paddingLeft: 4 + depth * 14 }}
+          onClick={() => onScopeChange(target)}
+          {...dropHandlers(target)}
+        >
+          <button
+            onClick={(e) => { e.stopPropagation(); toggleExpanded(node.path); }}
+            className={`p-0.5 rounded hover:bg-zinc-700 ${node.children.length === 0 ? 'invisible' : ''}`}
+          >
+            {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          </button>
+          <Icon size={14} className="shrink-0" />
+          <span className="truncate flex-1">{node.name}</span>
+          <button
+            onClick={(e) => { e.stopPropagation(); startNewFolder(node.path); }}
+            className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-zinc-700"
+            title="Вложенная папка"
+          >
+            <FolderPlus size={12} />
+          </button>
+          <span className="text-xs text-zinc-500 w-5 text-right">{node.count || ''}</span>
+        </div>
+        {(isExpanded || newFolderParent === node.path) && (
+          <ul>
+            {isExpanded && node.children.map(child => renderFolder(child, depth + 1))}
+            {newFolderParent === node.path && <li>{newFolderInput(depth + 1)}</li>}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  const renderRow = ({ target, label, icon: Icon, count }: FixedRow) => (
+    <li key={target.kind}>
+      <div
+        className={`flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer transition-colors ${rowClass(target)}`}
+        onClick={() => onScopeChange(target)}
+        {...dropHandlers(target)}
+      >
+        <Icon size={14} className="shrink-0" />
+        <span className="flex-1 truncate">{label}</span>
+        <span className="text-xs text-zinc-500">{count || ''}</span>
+      </div>
+    </li>
+  );
+
+  const topRows: FixedRow[] = [
+    { target: { kind: 'all' }, label: 'Все проекты', icon: LayoutGrid, count: counts.all },
+    { target: { kind: 'pinned' }, label: 'Закреплённые', icon: Pin, count: counts.pinned },
+  ];
+
+  const bottomRows: FixedRow[] = [
+    { target: { kind: 'archive' }, label: 'Архив', icon: Archive, count: counts.archive },
+    { target: { kind: 'trash' }, label: 'Корзина', icon: Trash2, count: counts.trash },
+  ];
+
+  return (
+    <nav className="text-sm select-none">
+      <ul className="space-y-0.5">
+        {topRows.map(renderRow)}
+      </ul>
+
+      <div className="flex items-center justify-between mt-5 mb-1 px-2">
+        <span className="text-xs uppercase tracking-wider text-zinc-500">Папки</span>
+        <button onClick={() => startNewFolder('')} className="p-0.5 rounded text-zinc-500 hover:text-white hover:bg-zinc-800" title="Новая папка">
+          <FolderPlus size={14} />
+        </button>
+      </div>
+      <ul className="space-y-0.5">
+        {folders.map(node => renderFolder(node, 0))}
+        {newFolderParent === '' && <li>{newFolderInput(0)}</li>}
+      </ul>
+      {folders.length === 0 && newFolderParent === null && (
+        <p className="px-2 py-1 text-xs text-zinc-600">Перетащите проект на папку, чтобы переместить его</p>
+      )}
+
+      <ul className="space-y-0.5 mt-5">
+        {bottomRows.map(renderRow)}
+      </ul>
+    </nav>
+  );
+}
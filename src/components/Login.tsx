@@ -1,6 +1,7 @@
 import React from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { LogIn } from 'lucide-react';
+import { isFirebaseEnabled } from '../lib/firebase';
 
 export default function Login() {
   const { signInWithGoogle } = useAuth();
@@ -18,8 +19,14 @@ export default function Login() {
           onClick={signInWithGoogle}
           className="w-full bg-white text-black hover:bg-zinc-200 font-medium py-3 px-4 rounded-xl flex items-center justify-center gap-3 transition-colors"
         >
-          <img src="https://www.google.com/favicon.ico" alt="Google" className="w-5 h-5" />
-          Войти через Google
+          {isFirebaseEnabled ? (
+            <>
+              <img src="https://www.google.com/favicon.ico" alt="Google" className="w-5 h-5" />
+              Войти через Google
+            </>
+          ) : (
+            'Войти'
+          )}
         </button>
       </div>
     </div>
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { MindmapExportFormat } from '../utils/mindmapExport';
+
+interface MindmapExportMenuProps {
+  onExport: (format: MindmapExportFormat, scale: number) => Promise<void>;
+  disabled?: boolean;
+  // Side the dropdown is anchored to
+  align?: 'left' | 'right';
+}
+
+const PNG_SCALES = [1, 2, 4];
+
+export default function MindmapExportMenu({ onExport, disabled, align = 'right' }: MindmapExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = () => setOpen(false);
+    document.addEventListener('click', handleClickOutside);
+    return () => document.removeEventListener('click', handleClickOutside);
+  }, [open]);
+
+  const handleExport = async (format: MindmapExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    try {
+      await onExport(format, scale);
+    } catch (error) {
+      console.error("Error exporting mindmap:", error);
+      alert("Ошибка экспорта карты.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled || exporting}
+        className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+        title={disabled ? "Экспорт доступен при открытой карте" : "Экспорт карты"}
+      >
+        <Download size={16} className={exporting ? 'animate-pulse' : ''} />
+      </button>
+      {open && (
+        <div className={`absolute ${align === 'left' ? 'left-0' : 'right-0'} top-full mt-1 bg-zinc-900 border border-zinc-700 rounded shadow-xl py-1 z-50 min-w-[180px]`}>
+          <button
+            className="w-full text-left px-3 py-1.5 text-sm text-zinc-200 hover:bg-zinc-800 transition-colors"
+            onClick={() => handleExport('svg')}
+          >
+            SVG
+          </button>
+          <div className="flex items-center justify-between px-3 py-1.5 text-sm text-zinc-200 hover:bg-zinc-800 transition-colors">
+            <button className="flex-1 text-left" onClick={() => handleExport('png')}>
+              PNG
+            </button>
+            <select
+              value={scale}
+              onChange={(e) => setScale(Number(e.target.value))}
+              className="bg-zinc-950 border border-white/10 rounded px-1 text-xs text-zinc-400 outline-none"
+              title="Масштаб"
+            >
+              {PNG_SCALES.map(value => (
+                <option key={value} value={value}>{value}x</option>
+              ))}
+            </select>
+          </div>
+          <button
+            className="w-full text-left px-3 py-1.5 text-sm text-zinc-200 hover:bg-zinc-800 transition-colors"
+            onClick={() => handleExport('pdf')}
+          >
+            PDF (A4)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
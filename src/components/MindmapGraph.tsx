@@ -1,25 +1,100 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { HeadingNode } from '../utils/markdownParser';
+import { Waypoints, Orbit, ArrowRightFromLine, ArrowDownFromLine, UnfoldVertical, Link2 } from 'lucide-react';
+import { HeadingNode, findHeadingNode, findParentNode } from '../utils/markdownParser';
+import { MindmapLayout } from '../types';
+import { MindmapExportFormat, exportMindmap } from '../utils/mindmapExport';
+import { HeadingAttributes } from '../utils/headingAttributes';
+import { NODE_COLORS, NODE_ICONS, NODE_SHAPES, computeNodeStyles, shapePath, wrapLabel } from '../utils/nodeStyles';
+import { CrossLink } from '../utils/crossLinks';
+import { createForceSimulation } from '../utils/forceLayout';
+
+export interface MindmapGraphHandle {
+  // Saves the map as currently laid out, collapsed branches stay collapsed
+  exportImage: (format: MindmapExportFormat, title: string, scale?: number) => Promise<void>;
+}
 
 interface MindmapGraphProps {
+  ref?: React.Ref<MindmapGraphHandle>;
   data: HeadingNode;
-  onNodeClick: (line: number) => void;
+  onNodeClick: (id: string) => void;
   readOnly?: boolean;
+  layout?: MindmapLayout;
+  onLayoutChange?: (layout: MindmapLayout) => void;
+  collapsedIds?: Set<string>;
+  onCollapsedChange?: (collapsedIds: Set<string>) => void;
+  // "See also" links between sections, drawn as dashed edges
+  crossLinks?: CrossLink[];
   onNodeAdd?: (parentId: string, text: string) => void;
   onNodeDelete?: (id: string) => void;
+  // Re-parents a heading section: `index` is its position among the new parent's children
+  onNodeMove?: (id: string, parentId: string, index: number) => void;
+  onNodeRename?: (id: string, text: string) => void;
+  onNodeAddSibling?: (id: string, text: string) => void;
+  // -1 promotes the heading with its subtree, +1 demotes it
+  onNodeLevelChange?: (id: string, delta: number) => void;
+  onNodeDuplicate?: (id: string) => void;
+  // Sets style attributes (color, branch-color, icon, shape); empty values clear them
+  onNodeStyleChange?: (id: string, changes: HeadingAttributes) => void;
+}
+
+type Point = { x: number; y: number };
+type GraphNode = HeadingNode & d3.SimulationNodeDatum;
+type GraphLink = { id: string; source: string | GraphNode; target: string | GraphNode };
+
+const LAYOUTS: { id: MindmapLayout; title: string; icon: React.ElementType }[] = [
+  { id: 'force', title: 'Свободная раскладка', icon: Waypoints },
+  { id: 'radial', title: 'Радиальное дерево', icon: Orbit },
+  { id: 'horizontal', title: 'Слева направо', icon: ArrowRightFromLine },
+  { id: 'vertical', title: 'Сверху вниз', icon: ArrowDownFromLine },
+];
+
+const TRANSITION_MS = 500;
+
+const nodeRadius = (d: HeadingNode) => Math.max(5, 12 - d.level * 2); // Root is bigger, deeper nodes smaller
+
+const labelFontSize = (d: HeadingNode) => Math.max(10, 16 - d.level * 2);
+
+const translate = (p: Point) => `translate(${p.x},${p.y})`;
+
+const menuItemClass = "w-full text-left px-3 py-1.5 text-sm text-zinc-200 hover:bg-zinc-800 transition-colors";
+const styleButtonClass = (active: boolean) =>
+  `w-6 h-6 flex items-center justify-center rounded border text-xs transition-colors ${active ? 'border-white' : 'border-transparent hover:border-zinc-600'}`;
+
+const DROP_HIGHLIGHT = "#f59e0b"; // amber-500
+const CROSS_LINK_COLOR = "#a78bfa"; // violet-400
+
+// Coordinate along which siblings are ordered in each tree layout
+function siblingAxis(layout: MindmapLayout, p: Point) {
+  if (layout === 'horizontal') return p.y;
+  if (layout === 'vertical') return p.x;
+  // Radial: angle clockwise from twelve o'clock, as laid out by d3.cluster
+  const angle = Math.atan2(p.y, p.x) + Math.PI / 2;
+  return angle < 0 ? angle + 2 * Math.PI : angle;
 }
 
-// Flatten the tree into nodes and links for force simulation
+// Children that are actually drawn: a collapsed node hides its whole subtree
+const visibleChildren = (d: HeadingNode) => (d.collapsed ? null : d.children);
+
+function countDescendants(node: HeadingNode): number {
+  return node.children.reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+function markCollapsed(node: HeadingNode, collapsedIds: Set<string>) {
+  node.collapsed = node.children.length > 0 && collapsedIds.has(node.id);
+  node.children.forEach(child => markCollapsed(child, collapsedIds));
+}
+
+// Flatten the visible tree into nodes and links for the join and the force simulation
 function flattenGraph(root: HeadingNode) {
-  const nodes: (HeadingNode & { x?: number; y?: number })[] = [];
-  const links: { source: string; target: string }[] = [];
+  const nodes: GraphNode[] = [];
+  const links: GraphLink[] = [];
 
   function traverse(node: HeadingNode) {
     nodes.push(node);
-    if (node.children) {
+    if (!node.collapsed) {
       node.children.forEach(child => {
-        links.push({ source: node.id, target: child.id });
+        links.push({ id: `${node.id}->${child.id}`, source: node.id, target: child.id });
         traverse(child);
       });
     }
@@ -29,32 +104,242 @@ function flattenGraph(root: HeadingNode) {
   return { nodes, links };
 }
 
-export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, onNodeDelete }: MindmapGraphProps) {
+// Deterministic positions for the tree layouts, centered on the origin
+function computeTreeLayout(root: HeadingNode, layout: Exclude<MindmapLayout, 'force'>) {
+  const hierarchy = d3.hierarchy(root, visibleChildren);
+  const positions = new Map<string, Point>();
+
+  if (layout === 'radial') {
+    const radius = Math.max(1, hierarchy.height) * 120;
+    d3.cluster<HeadingNode>()
+      .size([2 * Math.PI, radius])
+      .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(hierarchy);
+    hierarchy.each(d => positions.set(d.data.id, {
+      x: d.y! * Math.cos(d.x! - Math.PI / 2),
+      y: d.y! * Math.sin(d.x! - Math.PI / 2),
+    }));
+    return positions;
+  }
+
+  const horizontal = layout === 'horizontal';
+  d3.tree<HeadingNode>().nodeSize(horizontal ? [44, 200] : [150, 110])(hierarchy);
+  hierarchy.each(d => positions.set(d.data.id, horizontal ? { x: d.y!, y: d.x! } : { x: d.x!, y: d.y! }));
+
+  const xs = [...positions.values()].map(p => p.x);
+  const ys = [...positions.values()].map(p => p.y);
+  const dx = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const dy = (Math.min(...ys) + Math.max(...ys)) / 2;
+  positions.forEach(p => {
+    p.x -= dx;
+    p.y -= dy;
+  });
+  return positions;
+}
+
+// Curved edge bending to the right of its direction, so it stands apart from
+// the tree links; it ends `inset` short of the target to leave room for the node
+function crossLinkPath(source: Point, target: Point, inset: number) {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const control = { x: (source.x + target.x) / 2 - dy * 0.2, y: (source.y + target.y) / 2 + dx * 0.2 };
+  const length = Math.hypot(target.x - control.x, target.y - control.y) || 1;
+  const end = {
+    x: target.x - (target.x - control.x) / length * inset,
+    y: target.y - (target.y - control.y) / length * inset,
+  };
+  return `M${source.x},${source.y}Q${control.x},${control.y} ${end.x},${end.y}`;
+}
+
+function linkPath(layout: MindmapLayout, source: Point, target: Point) {
+  if (layout === 'horizontal') {
+    return d3.linkHorizontal()({ source: [source.x, source.y], target: [target.x, target.y] });
+  }
+  if (layout === 'vertical') {
+    return d3.linkVertical()({ source: [source.x, source.y], target: [target.x, target.y] });
+  }
+  return `M${source.x},${source.y}L${target.x},${target.y}`;
+}
+
+export default function MindmapGraph({ ref, data, onNodeClick, readOnly, layout: layoutProp, onLayoutChange, collapsedIds, onCollapsedChange, crossLinks, onNodeAdd, onNodeDelete, onNodeMove, onNodeRename, onNodeAddSibling, onNodeLevelChange, onNodeDuplicate, onNodeStyleChange }: MindmapGraphProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
+  // Last known positions by heading id, so edits don't reshuffle the map
+  const positionsRef = useRef(new Map<string, Point>());
+  const simulationRef = useRef<d3.Simulation<GraphNode, undefined> | null>(null);
+  const readOnlyRef = useRef(readOnly);
+  readOnlyRef.current = readOnly;
+  const onNodeMoveRef = useRef(onNodeMove);
+  onNodeMoveRef.current = onNodeMove;
+  const [layout, setLayout] = useState<MindmapLayout>(layoutProp ?? 'force');
+  const [showCrossLinks, setShowCrossLinks] = useState(true);
+
+  useImperativeHandle(ref, () => ({
+    exportImage: (format, title, scale) => exportMindmap(svgRef.current!, format, title, scale),
+  }), []);
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => collapsedIds ?? new Set());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selectedIdRef = useRef<string | null>(null);
+  selectedIdRef.current = selectedId;
+  const [hasFocus, setHasFocus] = useState(false);
+  const hasFocusRef = useRef(hasFocus);
+  hasFocusRef.current = hasFocus;
+  const pendingSelectionRef = useRef<{ parentId: string; knownIds: Set<string> } | null>(null);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; visible: boolean; nodeId?: string } | null>(null);
   const [modal, setModal] = useState<{ 
     isOpen: boolean; 
-    type: 'input' | 'confirm';
+    type: 'child' | 'sibling' | 'confirm';
     nodeId: string; 
     title: string;
   } | null>(null);
   const [inputValue, setInputValue] = useState("");
+  // Inline label editor, positioned over the node in wrapper coordinates
+  const [editing, setEditing] = useState<{ nodeId: string; x: number; y: number; value: string; original: string } | null>(null);
+  const editingRef = useRef(editing);
+  editingRef.current = editing;
+
+  useEffect(() => {
+    if (layoutProp) setLayout(layoutProp);
+  }, [layoutProp]);
+
+  useEffect(() => {
+    if (collapsedIds) setCollapsed(collapsedIds);
+  }, [collapsedIds]);
+
+  const handleLayoutChange = (next: MindmapLayout) => {
+    setLayout(next);
+    onLayoutChange?.(next);
+  };
+
+  const handleCollapsedChange = (next: Set<string>) => {
+    setCollapsed(next);
+    onCollapsedChange?.(next);
+  };
+
+  const toggleCollapsed = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    handleCollapsedChange(next);
+  };
+  const toggleCollapsedRef = useRef(toggleCollapsed);
+  toggleCollapsedRef.current = toggleCollapsed;
+
+  // Show the first `level` levels below the root, hiding everything deeper
+  const collapseToLevel = (level: number) => {
+    const next = new Set<string>();
+    d3.hierarchy(data).each(d => {
+      if (d.depth >= level && d.data.children.length > 0) next.add(d.data.id);
+    });
+    handleCollapsedChange(next);
+  };
+
+  const maxDepth = d3.hierarchy(data).height;
+
+  const startEditing = (id: string) => {
+    if (readOnlyRef.current || !onNodeRename || !svgRef.current || !wrapperRef.current) return;
+    const element = d3.select(svgRef.current)
+      .selectAll<SVGGElement, GraphNode>("g.mindmap-node")
+      .filter(d => d.id === id)
+      .node();
+    const node = findHeadingNode(data, id);
+    if (!element || !node) return;
+
+    const rect = wrapperRef.current.getBoundingClientRect();
+    const box = element.getBoundingClientRect();
+    setEditing({
+      nodeId: id,
+      x: box.left + box.width / 2 - rect.left,
+      y: box.top - rect.top,
+      value: node.text,
+      original: node.text,
+    });
+  };
+  const startEditingRef = useRef(startEditing);
+  startEditingRef.current = startEditing;
+
+  const finishEditing = (save: boolean) => {
+    const current = editingRef.current;
+    editingRef.current = null;
+    setEditing(null);
+    focusMap();
+    const text = current?.value.trim();
+    if (save && text && text !== current.original) {
+      onNodeRename?.(current.nodeId, text);
+    }
+  };
+
+  const openInputModal = (type: 'child' | 'sibling', nodeId: string, title: string) => {
+    setInputValue("");
+    setModal({ isOpen: true, type, nodeId, title });
+  };
+
+  const runMenuAction = (action: () => void) => {
+    setContextMenu(null);
+    action();
+  };
+
+  const menuNode = contextMenu?.nodeId ? findHeadingNode(data, contextMenu.nodeId) : null;
+
+  const applyStyle = (changes: HeadingAttributes) => {
+    if (menuNode) runMenuAction(() => onNodeStyleChange?.(menuNode.id, changes));
+  };
+
+  // Palette row for `color` or `branch-color`; the first swatch clears it
+  const renderColorRow = (label: string, attribute: string) => (
+    <div className="px-3 py-1">
+      <div className="text-xs text-zinc-500 mb-1">{label}</div>
+      <div className="flex items-center gap-1">
+        <button className={styleButtonClass(!menuNode?.attributes[attribute])} onClick={() => applyStyle({ [attribute]: '' })} title="По умолчанию">
+          <span className="w-3.5 h-3.5 rounded-full border border-zinc-500" />
+        </button>
+        {Object.entries(NODE_COLORS).map(([name, color]) => (
+          <button key={name} className={styleButtonClass(menuNode?.attributes[attribute] === name)} onClick={() => applyStyle({ [attribute]: name })} title={name}>
+            <span className="w-3.5 h-3.5 rounded-full" style={{ backgroundColor: color }} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const focusMap = () => svgRef.current?.focus();
+
+  const expectNewChild = (parentId: string) => {
+    const parent = findHeadingNode(data, parentId);
+    if (!parent) return;
+    pendingSelectionRef.current = { parentId, knownIds: new Set(parent.children.map(child => child.id)) };
+    if (collapsed.has(parentId)) toggleCollapsed(parentId);
+  };
+
+  const closeModal = () => {
+    setModal(null);
+    focusMap();
+  };
 
   const handleModalConfirm = () => {
     if (!modal) return;
 
-    if (modal.type === 'input') {
+    if (modal.type === 'child') {
       if (inputValue.trim() && onNodeAdd) {
+        expectNewChild(modal.nodeId);
         onNodeAdd(modal.nodeId, inputValue.trim());
       }
+    } else if (modal.type === 'sibling') {
+      if (inputValue.trim() && onNodeAddSibling) {
+        const parent = findParentNode(data, modal.nodeId);
+        if (parent) expectNewChild(parent.id);
+        onNodeAddSibling(modal.nodeId, inputValue.trim());
+      }
     } else if (modal.type === 'confirm') {
       if (onNodeDelete) {
+        if (modal.nodeId === selectedId) setSelectedId(findParentNode(data, modal.nodeId)?.id ?? null);
         onNodeDelete(modal.nodeId);
       }
     }
     
-    setModal(null);
+    closeModal();
     setInputValue("");
   };
 
@@ -64,25 +349,36 @@ export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, o
     return () => document.removeEventListener('click', handleClickOutside);
   }, []);
 
+  // One-time SVG scaffold: the viewport, zoom and the link/node layers are kept
+  // across data updates so nodes can be joined by id and animated
   useEffect(() => {
-    if (!svgRef.current || !wrapperRef.current) return;
-
-    const width = wrapperRef.current.clientWidth;
-    const height = wrapperRef.current.clientHeight;
-    
-    const { nodes, links } = flattenGraph(data);
-
-    // Clear previous render
-    d3.select(svgRef.current).selectAll("*").remove();
+    if (!svgRef.current) return;
 
     const svg = d3.select(svgRef.current)
-      .attr("width", width)
-      .attr("height", height)
-      .attr("viewBox", [-width / 2, -height / 2, width, height])
       .style("font", "12px sans-serif")
       .style("user-select", "none");
 
-    const g = svg.append("g");
+    const defs = svg.append("defs");
+    defs.append("marker")
+      .attr("id", "mindmap-crosslink-arrow")
+      .attr("viewBox", "0 0 10 10")
+      .attr("refX", 9)
+      .attr("refY", 5)
+      .attr("markerWidth", 6)
+      .attr("markerHeight", 6)
+      .attr("orient", "auto")
+      .append("path")
+      .attr("d", "M0,0L10,5L0,10z")
+      .attr("fill", CROSS_LINK_COLOR);
+
+    const g = svg.append("g").attr("class", "mindmap-viewport");
+    g.append("g")
+      .attr("class", "mindmap-links")
+      .attr("fill", "none")
+      .attr("stroke", "#555")
+      .attr("stroke-opacity", 0.6);
+    g.append("g").attr("class", "mindmap-crosslinks");
+    g.append("g").attr("class", "mindmap-nodes");
 
     // Zoom behavior
     const zoom = d3.zoom<SVGSVGElement, unknown>()
@@ -93,12 +389,10 @@ export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, o
 
     svg.call(zoom)
        .on("contextmenu", (event) => {
-         console.log("Background context menu triggered");
-         if (readOnly) return;
+         if (readOnlyRef.current) return;
          event.preventDefault();
          
          const rect = wrapperRef.current!.getBoundingClientRect();
-         console.log("Setting context menu at:", event.clientX - rect.left, event.clientY - rect.top);
          setContextMenu({
            x: event.clientX - rect.left,
            y: event.clientY - rect.top,
@@ -107,45 +401,301 @@ export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, o
          });
        });
 
-    // Simulation
-    const simulation = d3.forceSimulation(nodes as any)
-      .force("link", d3.forceLink(links).id((d: any) => d.id).distance(100))
-      .force("charge", d3.forceManyBody().strength(-300))
-      .force("center", d3.forceCenter(0, 0))
-      .force("collide", d3.forceCollide().radius(30));
+    return () => {
+      svg.on(".zoom", null).on("contextmenu", null);
+      defs.remove();
+      g.remove();
+    };
+  }, []);
 
-    // Links
-    const link = g.append("g")
-      .attr("stroke", "#555")
-      .attr("stroke-opacity", 0.6)
-      .selectAll("line")
-      .data(links)
-      .join("line")
-      .attr("stroke-width", 1.5);
-
-    // Nodes group
-    const node = g.append("g")
-      .selectAll("g")
-      .data(nodes)
-      .join("g")
-      .attr("cursor", "pointer")
-      .call(d3.drag<any, any>()
-        .on("start", (event, d) => {
+  useEffect(() => {
+    if (!svgRef.current || !wrapperRef.current) return;
+
+    const width = wrapperRef.current.clientWidth;
+    const height = wrapperRef.current.clientHeight;
+
+    const svg = d3.select(svgRef.current)
+      .attr("width", width)
+      .attr("height", height)
+      .attr("viewBox", [-width / 2, -height / 2, width, height]);
+
+    markCollapsed(data, collapsed);
+    const { nodes, links } = flattenGraph(data);
+    const styles = computeNodeStyles(data);
+
+    // Known positions are reused; new nodes appear next to their parent
+    const positions = positionsRef.current;
+    const parentById = new Map(links.map(l => [l.target as string, l.source as string]));
+    const startPosition = (id: string): Point | undefined => {
+      const known = positions.get(id);
+      if (known) return known;
+      const parent = positions.get(parentById.get(id) ?? '');
+      return parent && { x: parent.x + Math.random() * 20 - 10, y: parent.y + Math.random() * 20 - 10 };
+    };
+
+    const link = svg.select<SVGGElement>("g.mindmap-links")
+      .selectAll<SVGPathElement, GraphLink>("path")
+      .data(links, d => d.id)
+      .join(
+        enter => enter.append("path")
+          .attr("stroke-width", 1.5)
+          .attr("d", d => {
+            const start = startPosition(d.source as string) ?? { x: 0, y: 0 };
+            return linkPath(layout, start, start);
+          }),
+        update => update,
+        exit => exit.transition().duration(TRANSITION_MS).attr("opacity", 0).remove()
+      );
+    // Links inside a colored branch take its color, others keep the layer's default
+    link.attr("stroke", d => styles.get(d.target as string)?.linkColor ?? null);
+
+    const node = svg.select<SVGGElement>("g.mindmap-nodes")
+      .selectAll<SVGGElement, GraphNode>("g.mindmap-node")
+      .data(nodes, d => d.id)
+      .join(
+        enter => {
+          const g = enter.append("g")
+            .attr("class", "mindmap-node")
+            .attr("cursor", "pointer")
+            .attr("transform", d => translate(startPosition(d.id) ?? { x: 0, y: 0 }));
+          g.append("path").attr("class", "node-shape");
+          // Keyboard focus ring, shown around the selected node while the map has focus
+          g.append("circle")
+            .attr("class", "focus-ring")
+            .attr("fill", "none")
+            .attr("stroke", "#3b82f6")
+            .attr("stroke-width", 2)
+            .attr("stroke-dasharray", "4 3")
+            .style("pointer-events", "none");
+          // Label with a dark outline for readability over links
+          g.append("text")
+            .attr("class", "label-outline")
+            .attr("text-anchor", "middle")
+            .attr("stroke", "black")
+            .attr("stroke-width", 3)
+            .style("pointer-events", "none");
+          g.append("text")
+            .attr("class", "label")
+            .attr("text-anchor", "middle")
+            .attr("fill", "#e4e4e7") // zinc-200
+            .style("pointer-events", "none"); // Let clicks pass to circle/group
+          // Collapse toggle to the right of the circle; shows the hidden count when collapsed
+          const toggle = g.append("g").attr("class", "collapse-toggle");
+          toggle.append("circle")
+            .attr("r", 7)
+            .attr("fill", "#18181b") // zinc-900
+            .attr("stroke", "#71717a"); // zinc-500
+          toggle.append("text")
+            .attr("text-anchor", "middle")
+            .attr("dy", "0.35em")
+            .attr("fill", "#e4e4e7")
+            .style("font-size", "9px");
+          return g;
+        },
+        update => update,
+        exit => exit.transition().duration(TRANSITION_MS).attr("opacity", 0).remove()
+      );
+
+    node
+      .attr("id", d => `mindmap-node-${d.id}`)
+      .attr("role", "treeitem")
+      .attr("aria-label", d => d.text)
+      .attr("aria-level", d => d.level + 1)
+      .attr("aria-expanded", d => d.children.length > 0 ? String(!d.collapsed) : null);
+
+    node.select("circle.focus-ring")
+      .attr("r", d => nodeRadius(d) + 6)
+      .attr("display", d => hasFocusRef.current && d.id === selectedIdRef.current ? null : "none");
+
+    node.select("path.node-shape")
+      .attr("d", d => shapePath(styles.get(d.id)!.shape, nodeRadius(d)))
+      .attr("fill", d => styles.get(d.id)!.fill)
+      .attr("stroke", d => d.id === selectedIdRef.current ? "#3b82f6" : "#000")
+      .attr("stroke-width", d => d.id === selectedIdRef.current ? 3 : 1.5);
+
+    const toggle = node.select<SVGGElement>("g.collapse-toggle")
+      .attr("display", d => d.children.length > 0 ? null : "none")
+      .attr("transform", d => `translate(${nodeRadius(d) + 8},0)`)
+      .on("click", (event, d) => {
+        event.stopPropagation();
+        toggleCollapsedRef.current(d.id);
+      });
+    toggle.select("circle")
+      .attr("r", d => d.collapsed ? 8 : 6)
+      .attr("fill", d => d.collapsed ? "#3f3f46" : "#18181b");
+    toggle.select("text")
+      .text(d => d.collapsed ? String(countDescendants(d)) : "−");
+
+    // Wrapped label above the node, growing upwards so the last line stays next to it
+    node.selectAll<SVGTextElement, GraphNode>("text.label-outline, text.label")
+      .data(d => [d, d])
+      .style("font-size", d => labelFontSize(d) + "px")
+      .style("font-weight", d => d.level === 0 ? "bold" : "normal")
+      .each(function (d) {
+        const icon = styles.get(d.id)!.icon;
+        const lines = wrapLabel(icon ? `${icon} ${d.text}` : d.text);
+        const lineHeight = labelFontSize(d) * 1.2;
+        d3.select(this)
+          .selectAll("tspan")
+          .data(lines)
+          .join("tspan")
+          .attr("x", 0)
+          .attr("y", (_, i) => -nodeRadius(d) - 5 - (lines.length - 1 - i) * lineHeight)
+          .text(line => line);
+      });
+
+    // Cross links between visible sections, with a wide invisible stroke for clicking
+    const nodeById = new Map(nodes.map(n => [n.id, n]));
+    const relations = showCrossLinks
+      ? (crossLinks ?? []).filter(l => nodeById.has(l.source) && nodeById.has(l.target))
+      : [];
+    const crossLink = svg.select<SVGGElement>("g.mindmap-crosslinks")
+      .selectAll<SVGGElement, CrossLink>("g.crosslink")
+      .data(relations, d => d.id)
+      .join(
+        enter => {
+          const g = enter.append("g")
+            .attr("class", "crosslink")
+            .attr("cursor", "pointer");
+          g.append("title");
+          g.append("path")
+            .attr("class", "crosslink-hit")
+            .attr("fill", "none")
+            .attr("stroke", "transparent")
+            .attr("stroke-width", 10);
+          g.append("path")
+            .attr("class", "crosslink-line")
+            .attr("fill", "none")
+            .attr("stroke", CROSS_LINK_COLOR)
+            .attr("stroke-width", 1.5)
+            .attr("stroke-dasharray", "5 4")
+            .attr("marker-end", "url(#mindmap-crosslink-arrow)");
+          return g;
+        },
+        update => update,
+        exit => exit.remove()
+      )
+      // Follows the link: selects the target and scrolls the text to it
+      .on("click", (event, d) => {
+        event.stopPropagation();
+        setSelectedId(d.target);
+        onNodeClick(d.target);
+      });
+    crossLink.select("title").text(d => `См. также: ${nodeById.get(d.target)!.text}`);
+
+    const placeCrossLinks = (positionOf: (id: string) => Point | undefined, duration = 0) => {
+      (["path.crosslink-hit", "path.crosslink-line"] as const).forEach(selector => {
+        const path = crossLink.select<SVGPathElement>(selector);
+        (duration > 0 ? path.transition().duration(duration).ease(d3.easeCubicOut) : path.interrupt())
+          .attr("d", d => crossLinkPath(
+            positionOf(d.source) ?? { x: 0, y: 0 },
+            positionOf(d.target) ?? { x: 0, y: 0 },
+            nodeRadius(nodeById.get(d.target)!) + 4,
+          ));
+      });
+    };
+    placeCrossLinks(startPosition);
+
+    // Node under the dragged one, if it may become its new parent
+    const findDropTarget = (dragged: GraphNode, p: Point) => nodes.find(n => {
+      if (findHeadingNode(dragged, n.id)) return false; // itself or its own subtree
+      const q = positions.get(n.id);
+      return q && Math.hypot(q.x - p.x, q.y - p.y) < nodeRadius(n) + 16;
+    });
+
+    const highlightDropTarget = (targetId: string | null) => {
+      node.select("path.node-shape")
+        .attr("stroke", d => d.id === targetId ? DROP_HIGHLIGHT : d.id === selectedIdRef.current ? "#3b82f6" : "#000")
+        .attr("stroke-width", d => d.id === targetId || d.id === selectedIdRef.current ? 3 : 1.5);
+    };
+
+    const parentOf = (id: string) => findHeadingNode(data, parentById.get(id) ?? '');
+
+    // Where a point falls among the children of `parent`: along the axis of a
+    // tree layout, or in the force layout by the angle around the parent,
+    // counted from the side facing the grandparent where no children sit
+    const siblingOrder = (parent: HeadingNode): ((p: Point) => number) => {
+      if (layout !== 'force') return p => siblingAxis(layout, p);
+      const center = positions.get(parent.id) ?? { x: 0, y: 0 };
+      const grandparent = positions.get(parentById.get(parent.id) ?? '');
+      const start = grandparent ? Math.atan2(grandparent.y - center.y, grandparent.x - center.x) : -Math.PI / 2;
+      return p => {
+        const angle = Math.atan2(p.y - center.y, p.x - center.x) - start;
+        return angle < 0 ? angle + 2 * Math.PI : angle;
+      };
+    };
+
+    // Dropping onto a node re-parents the branch, dropping elsewhere reorders
+    // it among its siblings
+    const dropNode = (d: GraphNode, p: Point) => {
+      const move = onNodeMoveRef.current;
+      if (!move || readOnlyRef.current || d.id === 'root') return;
+
+      const target = findDropTarget(d, p);
+      if (target) {
+        move(d.id, target.id, target.children.filter(c => c.id !== d.id).length);
+        return;
+      }
+
+      const parent = parentOf(d.id);
+      if (!parent) return;
+      const order = siblingOrder(parent);
+      const dropped = order(p);
+      const index = parent.children
+        .filter(c => c.id !== d.id)
+        .filter(c => order(positions.get(c.id) ?? p) < dropped).length;
+      move(d.id, parent.id, index);
+    };
+
+    node
+      .call(d3.drag<SVGGElement, GraphNode>()
+        .subject((event, d) => ({ ...(positions.get(d.id) ?? { x: 0, y: 0 }) }))
+        .on("start", function (event, d) {
+          d3.select(this).raise();
+          const simulation = simulationRef.current;
+          if (!simulation) return;
           if (!event.active) simulation.alphaTarget(0.3).restart();
           d.fx = d.x;
           d.fy = d.y;
         })
-        .on("drag", (event, d) => {
-          d.fx = event.x;
-          d.fy = event.y;
+        .on("drag", function (event, d) {
+          const p = { x: event.x, y: event.y };
+          if (simulationRef.current) {
+            d.fx = p.x;
+            d.fy = p.y;
+          } else if (!readOnlyRef.current) {
+            d3.select(this).attr("transform", translate(p));
+          }
+          if (!readOnlyRef.current && onNodeMoveRef.current) {
+            highlightDropTarget(findDropTarget(d, p)?.id ?? null);
+          }
         })
-        .on("end", (event, d) => {
-          if (!event.active) simulation.alphaTarget(0);
-          d.fx = null;
-          d.fy = null;
-        }) as any)
+        .on("end", function (event, d) {
+          const p = { x: event.x, y: event.y };
+          highlightDropTarget(null);
+          const simulation = simulationRef.current;
+          if (simulation) {
+            if (!event.active) simulation.alphaTarget(0);
+            d.fx = null;
+            d.fy = null;
+          } else {
+            // Snap back; a successful move re-lays out the map from the new Markdown
+            d3.select(this).transition().duration(TRANSITION_MS / 2)
+              .attr("transform", translate(positions.get(d.id) ?? { x: 0, y: 0 }));
+          }
+          if (Math.hypot(event.x - event.subject.x, event.y - event.subject.y) > 5) {
+            dropNode(d, p);
+          }
+        }))
       .on("click", (event, d) => {
-        onNodeClick(d.line);
+        setSelectedId(d.id);
+        onNodeClick(d.id);
+      })
+      .on("dblclick", (event, d) => {
+        // Keep the zoom behaviour from zooming in on double-click
+        event.stopPropagation();
+        event.preventDefault();
+        startEditingRef.current(d.id);
       })
       .on("contextmenu", (event, d) => {
         if (readOnly) return;
@@ -161,47 +711,161 @@ export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, o
         });
       });
 
-    // Node Circles
-    node.append("circle")
-      .attr("r", d => Math.max(5, 12 - d.level * 2)) // Root is bigger, deeper nodes smaller
-      .attr("fill", d => {
-        if (d.level === 0) return "#fff";
-        if (d.level === 1) return "#e4e4e7"; // zinc-200
-        if (d.level === 2) return "#a1a1aa"; // zinc-400
-        return "#52525b"; // zinc-600
-      })
-      .attr("stroke", "#000")
-      .attr("stroke-width", 1.5);
-
-    // Labels
-    node.append("text")
-      .attr("dy", d => -Math.max(5, 12 - d.level * 2) - 5) // Position above circle
-      .attr("text-anchor", "middle")
-      .text(d => d.text.length > 20 ? d.text.substring(0, 20) + "..." : d.text)
-      .attr("fill", "#e4e4e7") // zinc-200
-      .style("font-size", d => Math.max(10, 16 - d.level * 2) + "px")
-      .style("font-weight", d => d.level === 0 ? "bold" : "normal")
-      .style("pointer-events", "none") // Let clicks pass to circle/group
-      .clone(true).lower()
-      .attr("stroke", "black")
-      .attr("stroke-width", 3);
+    if (layout !== 'force') {
+      const targets = computeTreeLayout(data, layout);
+      targets.forEach((p, id) => positions.set(id, p));
+
+      const t = svg.transition().duration(TRANSITION_MS).ease(d3.easeCubicOut);
+      node.transition(t)
+        .attr("opacity", 1)
+        .attr("transform", d => translate(targets.get(d.id)!));
+      link.transition(t)
+        .attr("opacity", 1)
+        .attr("d", d => linkPath(layout, targets.get(d.source as string)!, targets.get(d.target as string)!));
+      placeCrossLinks(id => targets.get(id), TRANSITION_MS);
+      return;
+    }
+
+    // Force layout: continue from the current positions
+    let knownCount = 0;
+    nodes.forEach(n => {
+      const start = startPosition(n.id);
+      if (positions.has(n.id)) knownCount++;
+      if (start) {
+        n.x = start.x;
+        n.y = start.y;
+      }
+    });
+    node.interrupt().attr("opacity", 1);
+    link.interrupt().attr("opacity", 1);
+
+    const simulation = createForceSimulation(nodes, links);
+
+    // Mostly unchanged layout: settle gently instead of exploding from scratch
+    if (knownCount > 0) {
+      simulation.alpha(knownCount === nodes.length ? 0.1 : 0.4);
+    }
 
     simulation.on("tick", () => {
-      link
-        .attr("x1", (d: any) => d.source.x)
-        .attr("y1", (d: any) => d.source.y)
-        .attr("x2", (d: any) => d.target.x)
-        .attr("y2", (d: any) => d.target.y);
-
-      node
-        .attr("transform", (d: any) => `translate(${d.x},${d.y})`);
+      link.attr("d", d => linkPath('force', d.source as GraphNode as Point, d.target as GraphNode as Point));
+      node.attr("transform", d => translate(d as Point));
+      nodes.forEach(d => positions.set(d.id, { x: d.x!, y: d.y! }));
+      placeCrossLinks(id => positions.get(id));
     });
+    simulationRef.current = simulation;
 
     return () => {
       simulation.stop();
+      simulationRef.current = null;
     };
 
-  }, [data, onNodeClick, readOnly]);
+  }, [data, layout, collapsed, crossLinks, showCrossLinks, onNodeClick, readOnly]);
+
+  // Selection highlight survives data updates because it is keyed by heading id
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll<SVGPathElement, HeadingNode>("g.mindmap-node > path.node-shape")
+      .attr("stroke", d => d.id === selectedId ? "#3b82f6" : "#000")
+      .attr("stroke-width", d => d.id === selectedId ? 3 : 1.5);
+    svg.selectAll<SVGCircleElement, HeadingNode>("g.mindmap-node > circle.focus-ring")
+      .attr("display", d => hasFocus && d.id === selectedId ? null : "none");
+  }, [selectedId, hasFocus]);
+
+  // A node added from the map gets selected once it shows up in the outline
+  useEffect(() => {
+    const pending = pendingSelectionRef.current;
+    if (!pending) return;
+    const parent = findHeadingNode(data, pending.parentId);
+    const added = parent?.children.find(child => !pending.knownIds.has(child.id));
+    if (added) {
+      pendingSelectionRef.current = null;
+      setSelectedId(added.id);
+    }
+  }, [data]);
+
+  // XMind-style keys. Arrows follow the layout: along the branch to the parent
+  // or the first child, across it to the previous or next sibling.
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    const current = selectedId ? findHeadingNode(data, selectedId) : null;
+    if (!current) {
+      if (event.key.startsWith('Arrow')) {
+        event.preventDefault();
+        setSelectedId(data.id);
+      }
+      return;
+    }
+
+    const parent = findParentNode(data, current.id);
+    const siblings = parent?.children ?? [];
+    const index = siblings.indexOf(current);
+    const vertical = layout === 'vertical';
+    const keys = vertical
+      ? { parent: 'ArrowUp', child: 'ArrowDown', previous: 'ArrowLeft', next: 'ArrowRight' }
+      : { parent: 'ArrowLeft', child: 'ArrowRight', previous: 'ArrowUp', next: 'ArrowDown' };
+    const editable = !readOnly;
+
+    switch (event.key) {
+      case keys.parent:
+        if (parent) setSelectedId(parent.id);
+        break;
+      case keys.child:
+        if (current.children.length === 0) break;
+        if (collapsed.has(current.id)) {
+          toggleCollapsed(current.id);
+        } else {
+          setSelectedId(current.children[0].id);
+        }
+        break;
+      case keys.previous:
+        if (index <= 0) break;
+        // Alt moves the branch itself instead of the focus
+        if (event.altKey && editable && onNodeMove) {
+          onNodeMove(current.id, parent.id, index - 1);
+        } else {
+          setSelectedId(siblings[index - 1].id);
+        }
+        break;
+      case keys.next:
+        if (index === -1 || index >= siblings.length - 1) break;
+        if (event.altKey && editable && onNodeMove) {
+          onNodeMove(current.id, parent.id, index + 1);
+        } else {
+          setSelectedId(siblings[index + 1].id);
+        }
+        break;
+      case 'Tab':
+        if (!editable || !onNodeAdd || event.shiftKey) return;
+        openInputModal('child', current.id, 'Новый подпункт');
+        break;
+      case 'Enter':
+        if (!editable) return;
+        if (current.id === 'root' || !onNodeAddSibling) {
+          if (!onNodeAdd) return;
+          openInputModal('child', current.id, 'Новый подпункт');
+        } else {
+          openInputModal('sibling', current.id, 'Новый пункт');
+        }
+        break;
+      case 'F2':
+        startEditing(current.id);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (!editable || !onNodeDelete || current.id === 'root') return;
+        setModal({ isOpen: true, type: 'confirm', nodeId: current.id, title: 'Удалить узел?' });
+        break;
+      case ' ':
+        if (current.children.length > 0) toggleCollapsed(current.id);
+        break;
+      case 'Escape':
+        setSelectedId(null);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
 
   return (
     <div ref={wrapperRef} className="w-full h-full bg-zinc-950 relative overflow-hidden">
@@ -212,9 +876,57 @@ export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, o
           backgroundSize: '24px 24px'
         }}
       />
-      <svg ref={svgRef} className="w-full h-full" />
+      <svg
+        ref={svgRef}
+        className="w-full h-full outline-none"
+        tabIndex={0}
+        role="tree"
+        aria-label="Mindmap"
+        aria-activedescendant={selectedId ? `mindmap-node-${selectedId}` : undefined}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setHasFocus(true)}
+        onBlur={() => setHasFocus(false)}
+      />
+      <div className="absolute top-4 right-4 flex items-center gap-1 bg-zinc-900/80 p-1 rounded-lg border border-white/10">
+        {LAYOUTS.map(({ id, title, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => handleLayoutChange(id)}
+            className={`p-1.5 rounded transition-colors ${layout === id ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+            title={title}
+          >
+            <Icon size={16} />
+          </button>
+        ))}
+        <div className="w-px h-5 bg-white/10 mx-1" />
+        <button
+          onClick={() => setShowCrossLinks(!showCrossLinks)}
+          className={`p-1.5 rounded transition-colors ${showCrossLinks ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+          title={showCrossLinks ? "Скрыть связи «см. также»" : "Показать связи «см. также»"}
+        >
+          <Link2 size={16} />
+        </button>
+        <select
+          value=""
+          onChange={(e) => collapseToLevel(Number(e.target.value))}
+          className="bg-transparent text-xs text-zinc-400 hover:text-white outline-none cursor-pointer"
+          title="Свернуть до уровня"
+        >
+          <option value="" disabled>Уровень</option>
+          {Array.from({ length: maxDepth }, (_, i) => i + 1).map(level => (
+            <option key={level} value={level} className="bg-zinc-900">До уровня {level}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => handleCollapsedChange(new Set())}
+          className="p-1.5 rounded transition-colors text-zinc-400 hover:text-white hover:bg-zinc-800"
+          title="Развернуть все"
+        >
+          <UnfoldVertical size={16} />
+        </button>
+      </div>
       <div className="absolute bottom-4 right-4 bg-zinc-900/80 p-2 rounded-lg text-xs text-zinc-500 border border-white/10 pointer-events-none">
-        Перетаскивайте узлы<br/>Клик для перехода к тексту<br/>ПКМ для редактирования
+        Перетащите узел на другой, чтобы переместить ветку<br/>Клик для перехода к тексту<br/>Двойной клик или F2 для переименования<br/>Стрелки, Tab, Enter, Пробел, Alt+стрелки с клавиатуры<br/>Кнопка у узла сворачивает ветку<br/>Пунктир — ссылки [[…]] и #якорь, клик для перехода<br/>ПКМ для редактирования
       </div>
 
       {/* React Context Menu */}
@@ -224,26 +936,88 @@ export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, o
           style={{ left: contextMenu.x, top: contextMenu.y }}
           onClick={(e) => e.stopPropagation()}
         >
-          {contextMenu.nodeId ? (
+          {menuNode ? (
             <>
-              <button 
-                className="w-full text-left px-3 py-1.5 text-sm text-zinc-200 hover:bg-zinc-800 transition-colors"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  setContextMenu(null);
-                  setInputValue("");
-                  setModal({ isOpen: true, type: 'input', nodeId: contextMenu.nodeId!, title: 'Новый подпункт' });
-                }}
-              >
+              {onNodeRename && (
+                <button className={menuItemClass} onClick={(e) => { e.stopPropagation(); runMenuAction(() => startEditing(menuNode.id)); }}>
+                  Переименовать
+                </button>
+              )}
+              <button className={menuItemClass} onClick={(e) => { e.stopPropagation(); runMenuAction(() => openInputModal('child', menuNode.id, 'Новый подпункт')); }}>
                 Добавить подпункт
               </button>
-              {contextMenu.nodeId !== 'root' && (
+              {menuNode.id !== 'root' && onNodeAddSibling && (
+                <button className={menuItemClass} onClick={(e) => { e.stopPropagation(); runMenuAction(() => openInputModal('sibling', menuNode.id, 'Новый пункт')); }}>
+                  Добавить соседний пункт
+                </button>
+              )}
+              {menuNode.id !== 'root' && onNodeLevelChange && (
+                <>
+                  {menuNode.level > 1 && (
+                    <button className={menuItemClass} onClick={(e) => { e.stopPropagation(); runMenuAction(() => onNodeLevelChange(menuNode.id, -1)); }}>
+                      Повысить уровень
+                    </button>
+                  )}
+                  {menuNode.level < 6 && (
+                    <button className={menuItemClass} onClick={(e) => { e.stopPropagation(); runMenuAction(() => onNodeLevelChange(menuNode.id, 1)); }}>
+                      Понизить уровень
+                    </button>
+                  )}
+                </>
+              )}
+              {menuNode.id !== 'root' && onNodeDuplicate && (
+                <button className={menuItemClass} onClick={(e) => { e.stopPropagation(); runMenuAction(() => onNodeDuplicate(menuNode.id)); }}>
+                  Дублировать ветку
+                </button>
+              )}
+              {menuNode.id !== 'root' && onNodeStyleChange && (
+                <div className="border-y border-zinc-800 my-1 py-1">
+                  {renderColorRow('Цвет', 'color')}
+                  {renderColorRow('Цвет ветки', 'branch-color')}
+                  <div className="px-3 py-1">
+                    <div className="text-xs text-zinc-500 mb-1">Форма</div>
+                    <div className="flex items-center gap-1">
+                      {NODE_SHAPES.map(({ id, label }) => (
+                        <button
+                          key={id}
+                          className={styleButtonClass((menuNode.attributes.shape || 'circle') === id)}
+                          onClick={() => applyStyle({ shape: id === 'circle' ? '' : id })}
+                          title={label}
+                        >
+                          <svg width="14" height="14" viewBox="-7 -7 14 14">
+                            <path d={shapePath(id, 5)} fill="currentColor" className="text-zinc-300" />
+                          </svg>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="px-3 py-1">
+                    <div className="text-xs text-zinc-500 mb-1">Значок</div>
+                    <div className="flex items-center gap-1">
+                      <button className={styleButtonClass(!menuNode.attributes.icon)} onClick={() => applyStyle({ icon: '' })} title="Без значка">
+                        <span className="text-zinc-500">—</span>
+                      </button>
+                      {NODE_ICONS.map(icon => (
+                        <button key={icon} className={styleButtonClass(menuNode.attributes.icon === icon)} onClick={() => applyStyle({ icon })}>
+                          {icon}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+              {menuNode.children.length > 0 && (
+                <button className={menuItemClass} onClick={(e) => { e.stopPropagation(); runMenuAction(() => toggleCollapsed(menuNode.id)); }}>
+                  {collapsed.has(menuNode.id) ? 'Развернуть ветку' : 'Свернуть ветку'}
+                </button>
+              )}
+              {menuNode.id !== 'root' && (
                 <button 
                   className="w-full text-left px-3 py-1.5 text-sm text-red-400 hover:bg-zinc-800 transition-colors"
                   onClick={(e) => {
                     e.stopPropagation();
                     setContextMenu(null);
-                    setModal({ isOpen: true, type: 'confirm', nodeId: contextMenu.nodeId!, title: 'Удалить узел?' });
+                    setModal({ isOpen: true, type: 'confirm', nodeId: menuNode.id, title: 'Удалить узел?' });
                   }}
                 >
                   Удалить узел
@@ -251,30 +1025,39 @@ export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, o
               )}
             </>
           ) : (
-            <button 
-              className="w-full text-left px-3 py-1.5 text-sm text-zinc-200 hover:bg-zinc-800 transition-colors"
-              onClick={(e) => {
-                e.stopPropagation();
-                setContextMenu(null);
-                setInputValue("");
-                setModal({ isOpen: true, type: 'input', nodeId: 'root', title: 'Новая тема' });
-              }}
-            >
+            <button className={menuItemClass} onClick={(e) => { e.stopPropagation(); runMenuAction(() => openInputModal('child', 'root', 'Новая тема')); }}>
               Добавить новую тему
             </button>
           )}
         </div>
       )}
+      {/* Inline label editor */}
+      {editing && (
+        <input
+          autoFocus
+          type="text"
+          className="absolute z-50 -translate-x-1/2 -translate-y-1/2 bg-zinc-950 border border-blue-500 rounded px-2 py-1 text-sm text-white outline-none min-w-[160px]"
+          style={{ left: editing.x, top: editing.y }}
+          value={editing.value}
+          onChange={e => setEditing({ ...editing, value: e.target.value })}
+          onFocus={e => e.target.select()}
+          onKeyDown={e => {
+            if (e.key === 'Enter') finishEditing(true);
+            if (e.key === 'Escape') finishEditing(false);
+          }}
+          onBlur={() => finishEditing(true)}
+        />
+      )}
       {/* Custom Input/Confirm Modal */}
       {modal && modal.isOpen && (
-        <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-[60]" onClick={() => setModal(null)}>
+        <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-[60]" onClick={closeModal}>
           <div 
             className="bg-zinc-900 p-4 rounded-xl border border-white/10 w-80 shadow-2xl" 
             onClick={e => e.stopPropagation()}
           >
             <h3 className="text-lg font-medium mb-4 text-white">{modal.title}</h3>
             
-            {modal.type === 'input' ? (
+            {modal.type !== 'confirm' ? (
               <input 
                 autoFocus
                 type="text" 
@@ -283,7 +1066,7 @@ export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, o
                 onChange={e => setInputValue(e.target.value)}
                 onKeyDown={e => {
                   if (e.key === 'Enter') handleModalConfirm();
-                  if (e.key === 'Escape') setModal(null);
+                  if (e.key === 'Escape') closeModal();
                 }}
                 placeholder="Введите текст..."
               />
@@ -295,12 +1078,13 @@ export default function MindmapGraph({ data, onNodeClick, readOnly, onNodeAdd, o
 
             <div className="flex justify-end gap-2">
               <button 
-                onClick={() => setModal(null)} 
+                onClick={closeModal} 
                 className="px-3 py-1.5 text-sm text-zinc-400 hover:text-white transition-colors"
               >
                 Отмена
               </button>
               <button 
+                autoFocus={modal.type === 'confirm'}
                 onClick={handleModalConfirm} 
                 className={`px-3 py-1.5 text-sm rounded font-medium transition-colors ${
                   modal.type === 'confirm' 
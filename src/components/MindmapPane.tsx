@@ -1,19 +1,537 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { ArrowLeft, MousePointer2, Square, StickyNote, BoxSelect, Spline, Trash2 } from 'lucide-react';
+import { CanvasColor, CanvasData, CanvasItem, Project } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { CANVAS_COLORS, DEFAULT_SIZES, Point, clipToRect, createCanvasId, itemsInGroup, normalizeCanvas, rectCenter } from '../utils/canvas';
+
+interface MindmapPaneProps {
+  project: Project;
+  readOnly?: boolean;
+  onBack?: () => void;
+  onSave?: (project: Project) => void;
+}
+
+type Tool = 'select' | 'node' | 'note' | 'group' | 'connect';
+type Selection = { type: 'item' | 'group' | 'edge'; id: string } | null;
+
+// Pointer drag in progress. Deltas are measured in screen pixels and divided
+// by the zoom scale captured when the drag started.
+type DragState =
+  | { mode: 'move'; clientX: number; clientY: number; scale: number; origins: Map<string, Point> }
+  | { mode: 'resize'; clientX: number; clientY: number; scale: number; key: string; width: number; height: number };
+
+const TOOLS: { id: Tool; title: string; icon: React.ElementType }[] = [
+  { id: 'select', title: 'Выбор и перемещение', icon: MousePointer2 },
+  { id: 'node', title: 'Узел', icon: Square },
+  { id: 'note', title: 'Заметка', icon: StickyNote },
+  { id: 'group', title: 'Группа', icon: BoxSelect },
+  { id: 'connect', title: 'Связь', icon: Spline },
+];
+
+const DEFAULT_COLORS: Record<'node' | 'note' | 'group', CanvasColor> = {
+  node: 'zinc',
+  note: 'amber',
+  group: 'blue',
+};
+
+const MIN_SIZE = { width: 80, height: 40 };
+
+// Freeform whiteboard for 'canvas' projects: manually placed nodes, sticky
+// notes and groups connected by free edges, persisted on the project record
+export default function MindmapPane({ project, readOnly, onBack, onSave }: MindmapPaneProps) {
+  const { user } = useAuth();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [canvas, setCanvas] = useState<CanvasData>(() => normalizeCanvas(project.canvas));
+  const [title, setTitle] = useState(project.title);
+  const [transform, setTransform] = useState(d3.zoomIdentity);
+  const [tool, setTool] = useState<Tool>('select');
+  const [selection, setSelection] = useState<Selection>(null);
+  const [editing, setEditing] = useState<{ type: 'item' | 'group'; id: string; value: string } | null>(null);
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'idle'>('idle');
+  // Set by local edits only, so remote updates don't bounce back as saves
+  const dirtyRef = useRef(false);
+  const dragRef = useRef<DragState | null>(null);
+
+  const itemById = useMemo(() => new Map(canvas.items.map(item => [item.id, item])), [canvas.items]);
+
+  const updateCanvas = (updater: (current: CanvasData) => CanvasData) => {
+    dirtyRef.current = true;
+    setCanvas(updater);
+  };
+
+  // Debounced save of the whole canvas
+  useEffect(() => {
+    if (!dirtyRef.current || !onSave) return;
+
+    const timeout = setTimeout(() => {
+      dirtyRef.current = false;
+      setSaveStatus('saving');
+      onSave({ ...project, title, canvas, lastModified: Date.now(), lastModifiedBy: user?.uid });
+      setSaveStatus('saved');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [canvas, title]);
+
+  // Remote changes replace the canvas unless there are unsaved local edits
+  useEffect(() => {
+    if (dirtyRef.current || (user && project.lastModifiedBy === user.uid)) return;
+    setCanvas(normalizeCanvas(project.canvas));
+    setTitle(project.title);
+  }, [project]);
+
+  // Pan and zoom: wheel anywhere, drag on the empty background only
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.2, 3])
+      .filter(event => event.type === 'wheel' || (event.target === svgRef.current && !event.button))
+      .on("zoom", (event) => setTransform(event.transform));
+
+    svg.call(zoom).on("dblclick.zoom", null);
+    return () => {
+      svg.on(".zoom", null);
+    };
+  }, []);
+
+  // Window-level listeners keep the drag going when the pointer leaves an item
+  useEffect(() => {
+    const handleMove = (event: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const dx = (event.clientX - drag.clientX) / drag.scale;
+      const dy = (event.clientY - drag.clientY) / drag.scale;
+      dirtyRef.current = true;
+
+      if (drag.mode === 'move') {
+        const moved = <T extends { id: string; x: number; y: number }>(prefix: string, entry: T): T => {
+          const origin = drag.origins.get(`${prefix}:${entry.id}`);
+          return origin ? { ...entry, x: origin.x + dx, y: origin.y + dy } : entry;
+        };
+        setCanvas(current => ({
+          ...current,
+          items: current.items.map(item => moved('item', item)),
+          groups: current.groups.map(group => moved('group', group)),
+        }));
+        return;
+      }
+
+      const resized = <T extends { id: string; width: number; height: number }>(prefix: string, entry: T): T =>
+        `${prefix}:${entry.id}` === drag.key
+          ? { ...entry, width: Math.max(MIN_SIZE.width, drag.width + dx), height: Math.max(MIN_SIZE.height, drag.height + dy) }
+          : entry;
+      setCanvas(current => ({
+        ...current,
+        items: current.items.map(item => resized('item', item)),
+        groups: current.groups.map(group => resized('group', group)),
+      }));
+    };
+    const handleUp = () => {
+      dragRef.current = null;
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, []);
+
+  const toCanvasPoint = (clientX: number, clientY: number): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const [x, y] = transform.invert([clientX - rect.left, clientY - rect.top]);
+    return { x, y };
+  };
+
+  const startMove = (event: React.PointerEvent, target: NonNullable<Selection>) => {
+    if (readOnly || tool !== 'select' || event.button !== 0 || editing) return;
+    event.stopPropagation();
+
+    const origins = new Map<string, Point>();
+    if (target.type === 'item') {
+      const item = itemById.get(target.id);
+      if (item) origins.set(`item:${item.id}`, { x: item.x, y: item.y });
+    } else if (target.type === 'group') {
+      const group = canvas.groups.find(g => g.id === target.id);
+      if (!group) return;
+      // A group carries the items placed inside it
+      origins.set(`group:${group.id}`, { x: group.x, y: group.y });
+      itemsInGroup(canvas.items, group).forEach(item => origins.set(`item:${item.id}`, { x: item.x, y: item.y }));
+    }
+    dragRef.current = { mode: 'move', clientX: event.clientX, clientY: event.clientY, scale: transform.k, origins };
+  };
+
+  const startResize = (event: React.PointerEvent, key: string, size: { width: number; height: number }) => {
+    if (readOnly || event.button !== 0) return;
+    event.stopPropagation();
+    dragRef.current = { mode: 'resize', clientX: event.clientX, clientY: event.clientY, scale: transform.k, key, ...size };
+  };
+
+  const createAt = (kind: 'node' | 'note' | 'group', p: Point) => {
+    const { width, height } = DEFAULT_SIZES[kind];
+    const id = createCanvasId(kind);
+    const frame = { x: p.x - width / 2, y: p.y - height / 2, width, height };
+
+    if (kind === 'group') {
+      updateCanvas(current => ({ ...current, groups: [...current.groups, { id, ...frame, title: 'Группа', color: DEFAULT_COLORS.group }] }));
+      setSelection({ type: 'group', id });
+      return;
+    }
+
+    const item: CanvasItem = { id, kind, ...frame, text: '', color: DEFAULT_COLORS[kind] };
+    updateCanvas(current => ({ ...current, items: [...current.items, item] }));
+    setSelection({ type: 'item', id });
+    setEditing({ type: 'item', id, value: '' });
+  };
+
+  const handleBackgroundClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (event.target !== svgRef.current) return;
+    if (!readOnly && (tool === 'node' || tool === 'note' || tool === 'group')) {
+      createAt(tool, toCanvasPoint(event.clientX, event.clientY));
+      setTool('select');
+      return;
+    }
+    setSelection(null);
+    setConnectFrom(null);
+  };
+
+  const handleItemClick = (event: React.MouseEvent, id: string) => {
+    event.stopPropagation();
+    if (readOnly) return;
+
+    if (tool === 'connect') {
+      if (!connectFrom) {
+        setConnectFrom(id);
+        return;
+      }
+      const exists = canvas.edges.some(edge => edge.from === connectFrom && edge.to === id);
+      if (connectFrom !== id && !exists) {
+        const edge = { id: createCanvasId('edge'), from: connectFrom, to: id };
+        updateCanvas(current => ({ ...current, edges: [...current.edges, edge] }));
+      }
+      setConnectFrom(null);
+      return;
+    }
+    setSelection({ type: 'item', id });
+  };
+
+  const commitEditing = () => {
+    if (!editing) return;
+    const { type, id, value } = editing;
+    setEditing(null);
+    if (type === 'item') {
+      updateCanvas(current => ({ ...current, items: current.items.map(item => item.id === id ? { ...item, text: value } : item) }));
+    } else {
+      updateCanvas(current => ({ ...current, groups: current.groups.map(group => group.id === id ? { ...group, title: value.trim() || 'Группа' } : group) }));
+    }
+  };
+
+  const deleteSelection = () => {
+    if (!selection) return;
+    const { type, id } = selection;
+    updateCanvas(current => {
+      if (type === 'edge') return { ...current, edges: current.edges.filter(edge => edge.id !== id) };
+      // Deleting a group keeps its contents
+      if (type === 'group') return { ...current, groups: current.groups.filter(group => group.id !== id) };
+      return {
+        ...current,
+        items: current.items.filter(item => item.id !== id),
+        edges: current.edges.filter(edge => edge.from !== id && edge.to !== id),
+      };
+    });
+    setSelection(null);
+  };
+
+  const setSelectionColor = (color: CanvasColor) => {
+    if (!selection || selection.type === 'edge') return;
+    const { type, id } = selection;
+    updateCanvas(current => type === 'item'
+      ? { ...current, items: current.items.map(item => item.id === id ? { ...item, color } : item) }
+      : { ...current, groups: current.groups.map(group => group.id === id ? { ...group, color } : group) });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (readOnly || editing) return;
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      deleteSelection();
+    }
+    if (event.key === 'Escape') {
+      setSelection(null);
+      setConnectFrom(null);
+      setTool('select');
+    }
+  };
+
+  const handleBack = () => {
+    if (dirtyRef.current && onSave) {
+      onSave({ ...project, title, canvas, lastModified: Date.now(), lastModifiedBy: user?.uid });
+    }
+    onBack?.();
+  };
+
+  const isSelected = (type: 'item' | 'group' | 'edge', id: string) => selection?.type === type && selection.id === id;
+  const selectedColor = selection?.type === 'item'
+    ? itemById.get(selection.id)?.color
+    : selection?.type === 'group' ? canvas.groups.find(g => g.id === selection.id)?.color : undefined;
+  const connectSource = connectFrom ? itemById.get(connectFrom) : undefined;
 
-export default function MindmapPane() {
   return (
-    <div className="w-full h-full bg-zinc-950 relative overflow-hidden flex items-center justify-center">
-      {/* Grid Background Pattern */}
-      <div 
-        className="absolute inset-0 opacity-20"
-        style={{
-          backgroundImage: 'radial-gradient(#444 1px, transparent 1px)',
-          backgroundSize: '24px 24px'
-        }}
-      />
-      
-      <div className="text-zinc-500 text-sm font-mono z-10 bg-zinc-900/80 px-4 py-2 rounded-full border border-white/5 backdrop-blur-sm">
-        Mindmap Canvas (Placeholder)
+    <div className="h-full flex flex-col bg-black text-white">
+      {!readOnly && (
+        <header className="h-14 border-b border-white/10 flex items-center justify-between px-4 bg-zinc-950 shrink-0">
+          <div className="flex items-center gap-3">
+            <button onClick={handleBack} className="p-1.5 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors">
+              <ArrowLeft size={18} />
+            </button>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => {
+                dirtyRef.current = true;
+                setTitle(e.target.value);
+              }}
+              className="bg-transparent border-none outline-none font-medium text-sm w-32 md:w-64 placeholder-zinc-600"
+              placeholder="Без названия"
+            />
+            <span className="text-xs text-zinc-500 hidden md:inline-flex items-center gap-1">
+              {saveStatus === 'saving' && <><span className="w-1.5 h-1.5 rounded-full bg-yellow-400 animate-pulse" /> Сохранение...</>}
+              {saveStatus === 'saved' && <><span className="w-1.5 h-1.5 rounded-full bg-green-400" /> Сохранено</>}
+            </span>
+          </div>
+        </header>
+      )}
+
+      <div className="flex-1 relative overflow-hidden bg-zinc-950 outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+        {/* Grid Background Pattern */}
+        <div
+          className="absolute inset-0 opacity-20 pointer-events-none"
+          style={{
+            backgroundImage: 'radial-gradient(#444 1px, transparent 1px)',
+            backgroundSize: `${24 * transform.k}px ${24 * transform.k}px`,
+            backgroundPosition: `${transform.x}px ${transform.y}px`,
+          }}
+        />
+
+        <svg
+          ref={svgRef}
+          className={`absolute inset-0 w-full h-full ${tool === 'select' ? '' : 'cursor-crosshair'}`}
+          onClick={handleBackgroundClick}
+          onPointerMove={(e) => connectFrom && setPointer(toCanvasPoint(e.clientX, e.clientY))}
+        >
+          <defs>
+            <marker id="canvas-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+              <path d="M0,0L10,5L0,10z" fill="#a1a1aa" />
+            </marker>
+          </defs>
+          <g transform={transform.toString()}>
+            {canvas.groups.map(group => {
+              const colors = CANVAS_COLORS[group.color];
+              const selected = isSelected('group', group.id);
+              return (
+                <g
+                  key={group.id}
+                  transform={`translate(${group.x},${group.y})`}
+                  onPointerDown={(e) => startMove(e, { type: 'group', id: group.id })}
+                  onClick={(e) => { e.stopPropagation(); if (!readOnly) setSelection({ type: 'group', id: group.id }); }}
+                  onDoubleClick={() => !readOnly && setEditing({ type: 'group', id: group.id, value: group.title })}
+                  className={readOnly ? '' : 'cursor-move'}
+                >
+                  <rect
+                    width={group.width}
+                    height={group.height}
+                    rx={12}
+                    fill={colors.fill}
+                    fillOpacity={0.35}
+                    stroke={selected ? '#fff' : colors.stroke}
+                    strokeDasharray="6 4"
+                    strokeWidth={selected ? 2 : 1}
+                  />
+                  {editing?.type === 'group' && editing.id === group.id ? (
+                    <foreignObject x={8} y={6} width={group.width - 16} height={28}>
+                      <input
+                        autoFocus
+                        className="w-full bg-zinc-950 border border-blue-500 rounded px-2 py-0.5 text-sm text-white outline-none"
+                        value={editing.value}
+                        onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitEditing();
+                          if (e.key === 'Escape') setEditing(null);
+                        }}
+                        onBlur={commitEditing}
+                        onPointerDown={(e) => e.stopPropagation()}
+                      />
+                    </foreignObject>
+                  ) : (
+                    <text x={12} y={22} fill={colors.stroke} fontSize={13} fontWeight={600} style={{ userSelect: 'none' }}>
+                      {group.title}
+                    </text>
+                  )}
+                  {selected && !readOnly && (
+                    <rect
+                      x={group.width - 10}
+                      y={group.height - 10}
+                      width={10}
+                      height={10}
+                      fill="#fff"
+                      className="cursor-nwse-resize"
+                      onPointerDown={(e) => startResize(e, `group:${group.id}`, group)}
+                    />
+                  )}
+                </g>
+              );
+            })}
+
+            {canvas.edges.map(edge => {
+              const from = itemById.get(edge.from);
+              const to = itemById.get(edge.to);
+              if (!from || !to) return null;
+              const start = clipToRect(from, rectCenter(to));
+              const end = clipToRect(to, rectCenter(from));
+              const selected = isSelected('edge', edge.id);
+              return (
+                <g key={edge.id} onClick={(e) => { e.stopPropagation(); if (!readOnly) setSelection({ type: 'edge', id: edge.id }); }} className={readOnly ? '' : 'cursor-pointer'}>
+                  {/* Wide invisible stroke makes thin edges easy to click */}
+                  <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="transparent" strokeWidth={12} />
+                  <line
+                    x1={start.x}
+                    y1={start.y}
+                    x2={end.x}
+                    y2={end.y}
+                    stroke={selected ? '#fff' : '#71717a'}
+                    strokeWidth={selected ? 2.5 : 1.5}
+                    markerEnd="url(#canvas-arrow)"
+                  />
+                </g>
+              );
+            })}
+
+            {connectSource && pointer && (
+              <line
+                x1={rectCenter(connectSource).x}
+                y1={rectCenter(connectSource).y}
+                x2={pointer.x}
+                y2={pointer.y}
+                stroke="#3b82f6"
+                strokeDasharray="4 3"
+                strokeWidth={1.5}
+                pointerEvents="none"
+              />
+            )}
+
+            {canvas.items.map(item => {
+              const colors = CANVAS_COLORS[item.color];
+              const selected = isSelected('item', item.id) || connectFrom === item.id;
+              const isNote = item.kind === 'note';
+              return (
+                <g
+                  key={item.id}
+                  transform={`translate(${item.x},${item.y})`}
+                  onPointerDown={(e) => startMove(e, { type: 'item', id: item.id })}
+                  onClick={(e) => handleItemClick(e, item.id)}
+                  onDoubleClick={() => !readOnly && setEditing({ type: 'item', id: item.id, value: item.text })}
+                  className={readOnly ? '' : tool === 'connect' ? 'cursor-crosshair' : 'cursor-move'}
+                >
+                  <rect
+                    width={item.width}
+                    height={item.height}
+                    rx={isNote ? 4 : 12}
+                    fill={colors.fill}
+                    stroke={selected ? '#fff' : colors.stroke}
+                    strokeWidth={selected ? 2 : 1}
+                  />
+                  <foreignObject width={item.width} height={item.height}>
+                    {editing?.type === 'item' && editing.id === item.id ? (
+                      <textarea
+                        autoFocus
+                        className={`w-full h-full bg-transparent resize-none outline-none p-2 text-sm text-white ${isNote ? '' : 'text-center'}`}
+                        value={editing.value}
+                        onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                        onKeyDown={(e) => {
+                          // Nodes are single labels; notes take line breaks
+                          if (e.key === 'Enter' && !e.shiftKey && !isNote) {
+                            e.preventDefault();
+                            commitEditing();
+                          }
+                          if (e.key === 'Escape') commitEditing();
+                        }}
+                        onBlur={commitEditing}
+                        onPointerDown={(e) => e.stopPropagation()}
+                      />
+                    ) : (
+                      <div
+                        className={`w-full h-full p-2 text-sm text-zinc-100 overflow-hidden whitespace-pre-wrap break-words select-none ${isNote ? '' : 'flex items-center justify-center text-center'}`}
+                      >
+                        {item.text || <span className="text-zinc-500">{isNote ? 'Заметка' : 'Узел'}</span>}
+                      </div>
+                    )}
+                  </foreignObject>
+                  {isSelected('item', item.id) && !readOnly && (
+                    <rect
+                      x={item.width - 8}
+                      y={item.height - 8}
+                      width={8}
+                      height={8}
+                      fill="#fff"
+                      className="cursor-nwse-resize"
+                      onPointerDown={(e) => startResize(e, `item:${item.id}`, item)}
+                    />
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+
+        {!readOnly && (
+          <div className="absolute top-4 left-4 flex items-center gap-1 bg-zinc-900/80 p-1 rounded-lg border border-white/10">
+            {TOOLS.map(({ id, title, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => {
+                  setTool(id);
+                  setConnectFrom(null);
+                }}
+                className={`p-1.5 rounded transition-colors ${tool === id ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+                title={title}
+              >
+                <Icon size={16} />
+              </button>
+            ))}
+            {selection && (
+              <>
+                <div className="w-px h-5 bg-white/10 mx-1" />
+                {selectedColor && (Object.keys(CANVAS_COLORS) as CanvasColor[]).map(color => (
+                  <button
+                    key={color}
+                    onClick={() => setSelectionColor(color)}
+                    className={`w-5 h-5 rounded-full border-2 ${selectedColor === color ? 'border-white' : 'border-transparent'}`}
+                    style={{ backgroundColor: CANVAS_COLORS[color].stroke }}
+                    title={color}
+                  />
+                ))}
+                <button
+                  onClick={deleteSelection}
+                  className="p-1.5 rounded text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+                  title="Удалить"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="absolute bottom-4 right-4 bg-zinc-900/80 p-2 rounded-lg text-xs text-zinc-500 border border-white/10 pointer-events-none">
+          Колесо — масштаб, фон — перемещение<br/>
+          {!readOnly && <>Двойной клик — редактировать текст<br/>Связь: клик по двум узлам</>}
+        </div>
       </div>
     </div>
   );
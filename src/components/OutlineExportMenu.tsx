@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { OUTLINE_FORMATS, OutlineFormat, exportOutline } from '../utils/outlineFormats';
+import { downloadBlob, toFileName } from '../utils/download';
+
+interface OutlineExportMenuProps {
+  title: string;
+  content: string;
+  // Side the dropdown is anchored to
+  align?: 'left' | 'right';
+  buttonClassName?: string;
+}
+
+// Exports the project's heading tree to other mind-mapping and outliner tools
+export default function OutlineExportMenu({ title, content, align = 'right', buttonClassName = 'p-1.5 rounded' }: OutlineExportMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = () => setOpen(false);
+    document.addEventListener('click', handleClickOutside);
+    return () => document.removeEventListener('click', handleClickOutside);
+  }, [open]);
+
+  const handleExport = (format: OutlineFormat) => {
+    setOpen(false);
+    try {
+      downloadBlob(exportOutline(format, title, content), toFileName(title, OUTLINE_FORMATS[format].extension));
+    } catch (error) {
+      console.error("Error exporting outline:", error);
+      alert("Ошибка экспорта структуры.");
+    }
+  };
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`${buttonClassName} text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors`}
+        title="Экспорт структуры"
+      >
+        <FileDown size={16} />
+      </button>
+      {open && (
+        <div className={`absolute ${align === 'left' ? 'left-0' : 'right-0'} top-full mt-1 bg-zinc-900 border border-zinc-700 rounded shadow-xl py-1 z-50 min-w-[160px]`}>
+          {(Object.keys(OUTLINE_FORMATS) as OutlineFormat[]).map(format => (
+            <button
+              key={format}
+              className="w-full text-left px-3 py-1.5 text-sm text-zinc-200 hover:bg-zinc-800 transition-colors"
+              onClick={() => handleExport(format)}
+            >
+              {OUTLINE_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
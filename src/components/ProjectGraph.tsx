@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Project, ProjectType } from '../types';
+import { ProjectLink, findProjectLinks } from '../utils/wikiLinks';
+import { createForceSimulation } from '../utils/forceLayout';
+import { wrapLabel } from '../utils/nodeStyles';
+
+interface ProjectGraphProps {
+  projects: Project[];
+  onOpenProject: (id: string) => void;
+}
+
+type GraphNode = d3.SimulationNodeDatum & { id: string; title: string; type: ProjectType; degree: number };
+type GraphLink = Omit<ProjectLink, 'source' | 'target'> & { source: string | GraphNode; target: string | GraphNode };
+
+const PROJECT_TYPES: { type: ProjectType; label: string; color: string }[] = [
+  { type: 'text', label: 'Текст', color: '#a1a1aa' }, // zinc-400
+  { type: 'both', label: 'Документ с картой', color: '#3b82f6' }, // blue-500
+  { type: 'mindmap', label: 'Карта', color: '#22c55e' }, // green-500
+  { type: 'canvas', label: 'Холст', color: '#f59e0b' }, // amber-500
+];
+
+const typeColor = (type: ProjectType) => PROJECT_TYPES.find(t => t.type === type)?.color ?? '#a1a1aa';
+
+// Well-linked projects are drawn bigger
+const nodeRadius = (d: GraphNode) => Math.min(18, 6 + Math.sqrt(d.degree) * 3);
+
+// Projects as nodes and `[[...]]` links between them as edges, laid out with
+// the same forces as the mindmap
+export default function ProjectGraph({ projects, onOpenProject }: ProjectGraphProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  // Positions survive re-renders, so new snapshots don't reshuffle the graph
+  const positionsRef = useRef(new Map<string, { x: number; y: number }>());
+  const onOpenProjectRef = useRef(onOpenProject);
+  onOpenProjectRef.current = onOpenProject;
+  const [hiddenTypes, setHiddenTypes] = useState<Set<ProjectType>>(new Set());
+
+  const links = useMemo(() => findProjectLinks(projects), [projects]);
+  const visibleCount = projects.filter(p => !hiddenTypes.has(p.type)).length;
+
+  const toggleType = (type: ProjectType) => {
+    const next = new Set(hiddenTypes);
+    if (next.has(type)) {
+      next.delete(type);
+    } else {
+      next.add(type);
+    }
+    setHiddenTypes(next);
+  };
+
+  useEffect(() => {
+    if (!svgRef.current || !wrapperRef.current) return;
+
+    const width = wrapperRef.current.clientWidth;
+    const height = wrapperRef.current.clientHeight;
+    const svg = d3.select(svgRef.current)
+      .attr("width", width)
+      .attr("height", height)
+      .attr("viewBox", [-width / 2, -height / 2, width, height])
+      .style("font", "12px sans-serif")
+      .style("user-select", "none");
+    svg.selectAll("*").remove();
+
+    svg.append("defs").append("marker")
+      .attr("id", "project-graph-arrow")
+      .attr("viewBox", "0 0 10 10")
+      .attr("refX", 9)
+      .attr("refY", 5)
+      .attr("markerWidth", 6)
+      .attr("markerHeight", 6)
+      .attr("orient", "auto")
+      .append("path")
+      .attr("d", "M0,0L10,5L0,10z")
+      .attr("fill", "#71717a");
+
+    const g = svg.append("g");
+    svg.call(d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.1, 4])
+      .on("zoom", (event) => g.attr("transform", event.transform)));
+
+    const visible = projects.filter(p => !hiddenTypes.has(p.type));
+    const ids = new Set(visible.map(p => p.id));
+    const graphLinks: GraphLink[] = links
+      .filter(l => ids.has(l.source) && ids.has(l.target))
+      .map(l => ({ ...l }));
+    const degree = new Map<string, number>();
+    graphLinks.forEach(l => {
+      degree.set(l.source as string, (degree.get(l.source as string) ?? 0) + 1);
+      degree.set(l.target as string, (degree.get(l.target as string) ?? 0) + 1);
+    });
+    const nodes: GraphNode[] = visible.map(p => ({
+      id: p.id,
+      title: p.title || 'Без названия',
+      type: p.type,
+      degree: degree.get(p.id) ?? 0,
+      ...positionsRef.current.get(p.id),
+    }));
+
+    const link = g.append("g")
+      .attr("stroke", "#71717a")
+      .attr("stroke-opacity", 0.6)
+      .selectAll<SVGLineElement, GraphLink>("line")
+      .data(graphLinks)
+      .join("line")
+      .attr("stroke-width", d => Math.min(4, 1 + Math.log2(d.count)))
+      .attr("marker-end", "url(#project-graph-arrow)");
+
+    const node = g.append("g")
+      .selectAll<SVGGElement, GraphNode>("g")
+      .data(nodes)
+      .join("g")
+      .attr("cursor", "pointer");
+
+    node.append("title").text(d => d.title);
+    node.append("circle")
+      .attr("r", nodeRadius)
+      .attr("fill", d => typeColor(d.type))
+      .attr("stroke", "#000")
+      .attr("stroke-width", 1.5);
+
+    // Label under the node, with a dark outline for readability over links
+    (["label-outline", "label"] as const).forEach(kind => {
+      const text = node.append("text")
+        .attr("text-anchor", "middle")
+        .attr("fill", "#e4e4e7") // zinc-200
+        .style("pointer-events", "none");
+      if (kind === "label-outline") {
+        text.attr("stroke", "black").attr("stroke-width", 3);
+      }
+      text.selectAll("tspan")
+        .data(d => wrapLabel(d.title, 20, 2).map(line => ({ line, d })))
+        .join("tspan")
+        .attr("x", 0)
+        .attr("y", ({ d }, i) => nodeRadius(d) + 14 + i * 14)
+        .text(({ line }) => line);
+    });
+
+    // Hovering a project dims everything it isn't linked with
+    const endpoints = (l: GraphLink) => [(l.source as GraphNode).id, (l.target as GraphNode).id];
+    node
+      .on("mouseenter", (_, d) => {
+        const neighbours = new Set([d.id]);
+        graphLinks.forEach(l => {
+          const [source, target] = endpoints(l);
+          if (source === d.id) neighbours.add(target);
+          if (target === d.id) neighbours.add(source);
+        });
+        node.attr("opacity", n => neighbours.has(n.id) ? 1 : 0.2);
+        link.attr("opacity", l => endpoints(l).includes(d.id) ? 1 : 0.1);
+      })
+      .on("mouseleave", () => {
+        node.attr("opacity", 1);
+        link.attr("opacity", 1);
+      })
+      .on("click", (_, d) => onOpenProjectRef.current(d.id));
+
+    const simulation = createForceSimulation(nodes, graphLinks);
+    if (nodes.every(n => positionsRef.current.has(n.id))) {
+      simulation.alpha(0.1);
+    }
+
+    node.call(d3.drag<SVGGElement, GraphNode>()
+      .on("start", (event, d) => {
+        if (!event.active) simulation.alphaTarget(0.3).restart();
+        d.fx = d.x;
+        d.fy = d.y;
+      })
+      .on("drag", (event, d) => {
+        d.fx = event.x;
+        d.fy = event.y;
+      })
+      .on("end", (event, d) => {
+        if (!event.active) simulation.alphaTarget(0);
+        d.fx = null;
+        d.fy = null;
+      }));
+
+    simulation.on("tick", () => {
+      link.each(function (l) {
+        const source = l.source as GraphNode;
+        const target = l.target as GraphNode;
+        // Stop at the target's edge so the arrowhead stays visible
+        const length = Math.hypot(target.x! - source.x!, target.y! - source.y!) || 1;
+        const inset = (nodeRadius(target) + 2) / length;
+        d3.select(this)
+          .attr("x1", source.x!)
+          .attr("y1", source.y!)
+          .attr("x2", target.x! - (target.x! - source.x!) * inset)
+          .attr("y2", target.y! - (target.y! - source.y!) * inset);
+      });
+      node.attr("transform", d => `translate(${d.x},${d.y})`);
+      nodes.forEach(d => positionsRef.current.set(d.id, { x: d.x!, y: d.y! }));
+    });
+
+    return () => {
+      simulation.stop();
+      svg.on(".zoom", null);
+    };
+  }, [projects, links, hiddenTypes]);
+
+  return (
+    <div ref={wrapperRef} className="w-full h-full bg-zinc-950 relative overflow-hidden">
+      <div
+        className="absolute inset-0 opacity-20 pointer-events-none"
+        style={{
+          backgroundImage: 'radial-gradient(#444 1px, transparent 1px)',
+          backgroundSize: '24px 24px'
+        }}
+      />
+      <svg ref={svgRef} className="w-full h-full" />
+
+      <div className="absolute top-4 left-4 flex flex-wrap items-center gap-1 bg-zinc-900/80 p-1 rounded-lg border border-white/10">
+        {PROJECT_TYPES.map(({ type, label, color }) => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors ${hiddenTypes.has(type) ? 'text-zinc-600 hover:text-zinc-400' : 'text-zinc-200 hover:bg-zinc-800'}`}
+            title={hiddenTypes.has(type) ? 'Показать' : 'Скрыть'}
+          >
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color, opacity: hiddenTypes.has(type) ? 0.3 : 1 }} />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {visibleCount === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-zinc-500 pointer-events-none">
+          Нет проектов для отображения
+        </div>
+      )}
+
+      <div className="absolute bottom-4 right-4 bg-zinc-900/80 p-2 rounded-lg text-xs text-zinc-500 border border-white/10 pointer-events-none">
+        Связи — ссылки [[Проект]] в тексте<br/>Клик открывает проект
+      </div>
+    </div>
+  );
+}
@@ -1,54 +1,45 @@
-import React, { useEffect, useState, useMemo } from 'react';
+import React, { useEffect, useState, useMemo, useRef } from 'react';
 import { useParams } from 'react-router-dom';
 import { Lock, ArrowRight } from 'lucide-react';
 import { useEditor, EditorContent } from '@tiptap/react';
 import { StarterKit } from '@tiptap/starter-kit';
 import { Image } from '@tiptap/extension-image';
-import { Table } from '@tiptap/extension-table';
 import { TableRow } from '@tiptap/extension-table-row';
 import { TableCell } from '@tiptap/extension-table-cell';
 import { TableHeader } from '@tiptap/extension-table-header';
 import { Markdown } from 'tiptap-markdown';
 import BarChartExtension from './extensions/BarChartExtension';
 import CodeBlockExtension from './extensions/CodeBlockExtension';
-import { database } from '../lib/firebase';
-import { ref, onValue } from 'firebase/database';
+import CustomTable from './extensions/TableExtension';
+import HeadingExtension from './extensions/HeadingExtension';
+import WikiLinkExtension from './extensions/WikiLinkExtension';
+import { useProjectRepository } from '../contexts/ProjectRepositoryContext';
+import { useCollapsedNodes } from '../hooks/useCollapsedNodes';
 import { Project } from '../types';
-import MindmapGraph from './MindmapGraph';
-import { parseMarkdownHeadings } from '../utils/markdownParser';
-
-// Reuse CustomTable from Editor (or extract to separate file, but duplicating for speed here)
-const CustomTable = Table.extend({
-  addAttributes() {
-    return {
-      ...this.parent?.(),
-      layoutMode: {
-        default: 'fixed',
-        parseHTML: element => element.getAttribute('data-layout-mode'),
-        renderHTML: attributes => {
-          return {
-            'data-layout-mode': attributes.layoutMode,
-            style: attributes.layoutMode === 'fixed'
-              ? 'table-layout: fixed; width: 100%'
-              : 'table-layout: auto; width: auto; min-width: 100%',
-          }
-        },
-      },
-    }
-  }
-});
+import MindmapGraph, { MindmapGraphHandle } from './MindmapGraph';
+import MindmapExportMenu from './MindmapExportMenu';
+import MindmapPane from './MindmapPane';
+import { parseMarkdown, parseMarkdownHeadings } from '../utils/markdownParser';
+import { findCrossLinks } from '../utils/crossLinks';
+import { resolveWikiLink } from '../utils/wikiLinks';
 
 export default function PublicViewer() {
   const { projectId } = useParams();
+  const repository = useProjectRepository();
   const [project, setProject] = useState<Project | null>(null);
+  const [collapsedNodes, setCollapsedNodes] = useCollapsedNodes(projectId);
+  const mindmapRef = useRef<MindmapGraphHandle>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [enteredPassword, setEnteredPassword] = useState('');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [passwordError, setPasswordError] = useState(false);
 
-  const checkPassword = () => {
-    if (project?.password && enteredPassword === project.password) {
+  // The self-hosted server only reports `hasPassword` and checks the password itself
+  const isLocked = !!(project?.password || project?.hasPassword) && !isAuthenticated;
+
+  const checkPassword = async () => {
+    if (project && await repository.checkProjectPassword(project.id, enteredPassword)) {
       setIsAuthenticated(true);
       setPasswordError(false);
     } else {
@@ -60,10 +51,8 @@ export default function PublicViewer() {
   useEffect(() => {
     if (!projectId) return;
 
-    const projectRef = ref(database, `projects/${projectId}`);
-    const unsubscribe = onValue(projectRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
+    const unsubscribe = repository.subscribeToProject(projectId, (data) => {
+      if (data && !data.deletedAt) {
         if (data.isPublicView || data.isPublicEdit) {
           setProject(data);
         } else {
@@ -80,11 +69,12 @@ export default function PublicViewer() {
     });
 
     return () => unsubscribe();
-  }, [projectId]);
+  }, [projectId, repository]);
 
   const editor = useEditor({
     extensions: [
-      StarterKit.configure({ codeBlock: false }),
+      StarterKit.configure({ codeBlock: false, heading: false }),
+      HeadingExtension.configure({ assignIds: false }),
       Image,
       CustomTable.configure({ resizable: false }), // No resizing in view mode
       TableRow,
@@ -93,6 +83,15 @@ export default function PublicViewer() {
       Markdown,
       BarChartExtension, // Charts will be interactive (hover) but not editable
       CodeBlockExtension,
+      WikiLinkExtension.configure({
+        // Other projects aren't visible here, only links within this one are followed
+        onNavigate: (link) => {
+          const target = project && resolveWikiLink(link, [], project);
+          if (target?.headingId) {
+            document.getElementById(target.headingId)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+          }
+        },
+      }),
     ],
     content: project?.content || '',
     editable: false, // Read-only
@@ -106,29 +105,34 @@ export default function PublicViewer() {
   // Update content when project loads
   useEffect(() => {
     if (editor && project) {
-      if (isAuthenticated || !project.password) {
+      if (!isLocked) {
         const currentMarkdown = (editor.storage as any)?.markdown?.getMarkdown?.();
         if (currentMarkdown !== project.content) {
           editor.commands.setContent(project.content);
         }
       }
     }
-  }, [project, editor, isAuthenticated]);
+  }, [project, editor, isLocked]);
 
+  const markdownTree = useMemo(() => (project && !isLocked ? parseMarkdown(project.content) : null), [project, isLocked]);
   const headingTree = useMemo(() => {
-    if (!project) return null;
-    if (project.password && !isAuthenticated) return null;
-    const tree = parseMarkdownHeadings(project.content);
+    if (!project || !markdownTree) return null;
+    const tree = parseMarkdownHeadings(project.content, markdownTree);
     tree.text = project.title || 'Untitled';
     return tree;
-  }, [project, isAuthenticated]);
+  }, [project, markdownTree]);
+
+  const crossLinks = useMemo(
+    () => (markdownTree && headingTree ? findCrossLinks(markdownTree, headingTree) : []),
+    [markdownTree, headingTree]
+  );
 
   if (loading) return <div className="min-h-screen bg-black text-white flex items-center justify-center">Загрузка...</div>;
   if (error) return <div className="min-h-screen bg-black text-white flex items-center justify-center">{error}</div>;
   if (!project) return null;
 
   // Password Challenge Screen
-  if (project.password && !isAuthenticated) {
+  if (isLocked) {
     return (
       <div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
         <div className="max-w-md w-full bg-zinc-900/50 border border-zinc-800 rounded-3xl p-8 backdrop-blur-xl animate-in zoom-in-95 duration-300">
@@ -170,6 +174,19 @@ export default function PublicViewer() {
     );
   }
 
+  if (project.type === 'canvas') {
+    return (
+      <div className="h-screen bg-black text-white flex flex-col">
+        <header className="h-14 border-b border-white/10 flex items-center px-4 shrink-0">
+          <h1 className="font-medium">{project.title}</h1>
+        </header>
+        <div className="flex-1 min-h-0">
+          <MindmapPane project={project} readOnly />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-black text-white font-sans selection:bg-blue-500/30 selection:text-white flex flex-col">
       <div className={`flex-1 ${project.publicShowMindmap ? 'flex flex-col md:flex-row' : 'max-w-3xl mx-auto px-4 md:px-8 py-8 md:py-16 w-full'}`}>
@@ -194,15 +211,26 @@ export default function PublicViewer() {
 
         {/* Mindmap Area */}
         {project.publicShowMindmap && headingTree && (
-          <div className="w-full md:w-1/2 h-[50vh] md:h-screen border-t md:border-t-0 border-white/10">
+          <div className="relative w-full md:w-1/2 h-[50vh] md:h-screen border-t md:border-t-0 border-white/10">
             <MindmapGraph
+              ref={mindmapRef}
               data={headingTree}
-              onNodeClick={(lineIndex) => {
-                // Scroll to element logic could be added here if needed, 
-                // but requires editor ref access or DOM manipulation
+              onNodeClick={(id) => {
+                // Headings are rendered with their persistent id
+                document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
               }}
               readOnly={true}
+              layout={project.mindmapLayout}
+              collapsedIds={collapsedNodes}
+              crossLinks={crossLinks}
+              onCollapsedChange={setCollapsedNodes}
             />
+            <div className="absolute top-4 left-4 bg-zinc-900/80 p-1 rounded-lg border border-white/10">
+              <MindmapExportMenu
+                align="left"
+                onExport={async (format, scale) => mindmapRef.current?.exportImage(format, project.title, scale)}
+              />
+            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,77 @@
+import React from 'react';
+import { FileText, Hash, Network, Shapes, SplitSquareHorizontal } from 'lucide-react';
+import { ProjectType } from '../types';
+import { HighlightRange, SearchResult } from '../utils/searchIndex';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  indexing: boolean;
+  onOpen: (projectId: string, headingId?: string) => void;
+}
+
+const TYPE_ICONS: Record<ProjectType, React.ElementType> = {
+  text: FileText,
+  both: SplitSquareHorizontal,
+  mindmap: Network,
+  canvas: Shapes,
+};
+
+function Highlighted({ text, ranges }: { text: string; ranges: HighlightRange[] }) {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(<mark key={start} className="bg-amber-400/30 text-amber-100 rounded-sm">{text.slice(start, end)}</mark>);
+    last = end;
+  });
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+}
+
+// Matches from the full-text index: projects by relevance, each with its best sections
+export default function SearchResults({ results, indexing, onOpen }: SearchResultsProps) {
+  return (
+    <section>
+      <p className="text-xs text-zinc-500 mb-3">
+        {indexing ? 'Индексация проектов…' : results.length > 0 ? `Найдено проектов: ${results.length}` : 'Ничего не найдено'}
+      </p>
+      <div className="grid grid-cols-1 gap-3">
+        {results.map(({ project, titleHighlights, hits }) => {
+          const Icon = TYPE_ICONS[project.type] ?? FileText;
+          return (
+            <div key={project.id} className="rounded-xl border border-white/5 bg-zinc-900/30">
+              <button
+                onClick={() => onOpen(project.id)}
+                className="w-full flex items-center gap-3 px-4 py-3 rounded-t-xl text-left hover:bg-zinc-900 transition-colors group"
+              >
+                <Icon size={16} className="shrink-0 text-zinc-500 group-hover:text-white" />
+                <span className="font-medium text-zinc-200 group-hover:text-white truncate">
+                  {project.title ? <Highlighted text={project.title} ranges={titleHighlights} /> : 'Без названия'}
+                </span>
+              </button>
+              {hits.map(hit => (
+                <button
+                  key={hit.sectionId}
+                  onClick={() => onOpen(project.id, hit.sectionId === 'root' ? undefined : hit.sectionId)}
+                  className="w-full text-left pl-11 pr-4 py-2 border-t border-white/5 hover:bg-zinc-900 transition-colors group"
+                >
+                  {hit.heading && (
+                    <div className="flex items-center gap-1 text-xs text-zinc-400 group-hover:text-white">
+                      <Hash size={12} className="shrink-0" />
+                      <span className="truncate">{hit.heading}</span>
+                    </div>
+                  )}
+                  {hit.snippet && (
+                    <div className="text-sm text-zinc-500 line-clamp-2 break-words">
+                      <Highlighted text={hit.snippet} ranges={hit.highlights} />
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
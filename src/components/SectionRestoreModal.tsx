@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { ListTree } from 'lucide-react';
+import { ProjectVersion } from '../types';
+import { HeadingNode, findHeadingNode, parseMarkdownHeadings } from '../utils/markdownParser';
+
+interface SectionRestoreModalProps {
+  version: ProjectVersion;
+  currentContent: string;
+  // Ids of the picked sections in the version
+  onRestore: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+type SectionStatus = 'deleted' | 'changed' | 'same';
+
+const STATUS_LABELS: Record<SectionStatus, { label: string; className: string }> = {
+  deleted: { label: 'удалён', className: 'bg-red-500/15 text-red-300' },
+  changed: { label: 'изменён', className: 'bg-amber-500/15 text-amber-300' },
+  same: { label: 'без изменений', className: 'bg-zinc-800 text-zinc-500' },
+};
+
+// Picks sections of an old version to merge back into the document
+export default function SectionRestoreModal({ version, currentContent, onRestore, onClose }: SectionRestoreModalProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const versionTree = useMemo(() => parseMarkdownHeadings(version.content), [version.content]);
+  const currentTree = useMemo(() => parseMarkdownHeadings(currentContent), [currentContent]);
+
+  // Subsections of a picked section come along anyway
+  const picked = useMemo(() => {
+    const ids: string[] = [];
+    const walk = (node: HeadingNode) => node.children.forEach(child => {
+      if (selected.has(child.id)) {
+        ids.push(child.id);
+      } else {
+        walk(child);
+      }
+    });
+    walk(versionTree);
+    return ids;
+  }, [versionTree, selected]);
+
+  const statusOf = (node: HeadingNode): SectionStatus => {
+    const current = findHeadingNode(currentTree, node.id);
+    if (!current) return 'deleted';
+    const oldText = version.content.slice(node.start, node.end).trim();
+    return currentContent.slice(current.start, current.end).trim() === oldText ? 'same' : 'changed';
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const renderNode = (node: HeadingNode, depth: number, inherited: boolean): React.ReactNode => {
+    const status = statusOf(node);
+    const checked = inherited || selected.has(node.id);
+    return (
+      <li key={node.id}>
+        <label
+          className={`flex items-center gap-2 py-1 pr-2 rounded text-sm ${inherited ? 'cursor-default' : 'cursor-pointer hover:bg-zinc-800/60'}`}
+          style={{ paddingLeft: 8 + depth * 18 }}
+        >
+          <input
+            type="checkbox"
+            checked={checked}
+            disabled={inherited}
+            onChange={() => toggle(node.id)}
+            className="accent-blue-500"
+          />
+          <span className={`truncate ${status === 'same' ? 'text-zinc-500' : 'text-white'}`}>{node.text}</span>
+          <span className={`shrink-0 px-1.5 rounded text-[11px] ${STATUS_LABELS[status].className}`}>{STATUS_LABELS[status].label}</span>
+        </label>
+        {node.children.length > 0 && (
+          <ul>{node.children.map(child => renderNode(child, depth + 1, checked))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-[65]" onClick={onClose}>
+      <div
+        className="bg-zinc-900 p-6 rounded-xl border border-white/10 w-[560px] max-w-[calc(100vw-2rem)] max-h-[80vh] shadow-2xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-medium mb-1 text-white flex items-center gap-2">
+          <ListTree size={20} />
+          Восстановить разделы
+        </h3>
+        <p className="text-xs text-zinc-500 mb-4">
+          Версия от {new Date(version.timestamp).toLocaleString()}. Выбранные разделы вернутся вместе с подразделами:
+          существующие будут заменены, удалённые — вставлены на прежнее место. Изменение отменяется одним действием.
+        </p>
+
+        <div className="flex-1 overflow-y-auto mb-4 pr-1">
+          {versionTree.children.length === 0 ? (
+            <p className="text-zinc-500 text-center py-8 text-sm">В этой версии нет разделов</p>
+          ) : (
+            <ul>{versionTree.children.map(node => renderNode(node, 0, false))}</ul>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t border-white/10">
+          <button onClick={onClose} className="px-3 py-1.5 text-sm text-zinc-400 hover:text-white transition-colors">
+            Отмена
+          </button>
+          <button
+            onClick={() => onRestore(picked)}
+            disabled={picked.length === 0}
+            className="px-3 py-1.5 text-sm bg-white text-black hover:bg-zinc-200 rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Восстановить{picked.length > 0 ? ` (${picked.length})` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ interface ShareModalProps {
 export default function ShareModal({ isOpen, onClose, project, onUpdateProject, onSaveVersion }: ShareModalProps) {
   const [copiedView, setCopiedView] = useState(false);
   const [copiedEdit, setCopiedEdit] = useState(false);
+  // What was typed here; the self-hosted server never sends the password back, only `hasPassword`
+  const [passwordDraft, setPasswordDraft] = useState<string | null>(null);
 
   if (!isOpen) return null;
 
@@ -20,6 +22,13 @@ export default function ShareModal({ isOpen, onClose, project, onUpdateProject,
   const viewLink = `${baseUrl}/view/${project.id}`;
   const editLink = `${baseUrl}/project/${project.id}`;
 
+  const hasPassword = passwordDraft !== null ? passwordDraft !== '' : !!(project.password || project.hasPassword);
+
+  const updatePassword = (password: string) => {
+    setPasswordDraft(password);
+    onUpdateProject({ password });
+  };
+
   const copyToClipboard = (text: string, setCopied: (val: boolean) => void) => {
     navigator.clipboard.writeText(text);
     setCopied(true);
@@ -121,32 +130,32 @@ export default function ShareModal({ isOpen, onClose, project, onUpdateProject,
                 <div className="space-y-2 pt-2 border-t border-zinc-800/50">
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium text-zinc-300 flex items-center gap-2">
-                      {project.password ? <Lock size={14} className="text-orange-400" /> : <Unlock size={14} className="text-zinc-500" />}
+                      {hasPassword ? <Lock size={14} className="text-orange-400" /> : <Unlock size={14} className="text-zinc-500" />}
                       Защита паролем
                     </span>
                     <button
-                      onClick={() => onUpdateProject({ password: project.password ? '' : '1234' })}
-                      className={`text-xs px-2 py-1 rounded transition-colors ${project.password ? 'text-red-400 hover:bg-red-400/10' : 'text-blue-400 hover:bg-blue-400/10'}`}
+                      onClick={() => updatePassword(hasPassword ? '' : '1234')}
+                      className={`text-xs px-2 py-1 rounded transition-colors ${hasPassword ? 'text-red-400 hover:bg-red-400/10' : 'text-blue-400 hover:bg-blue-400/10'}`}
                     >
-                      {project.password ? 'Убрать пароль' : 'Установить пароль'}
+                      {hasPassword ? 'Убрать пароль' : 'Установить пароль'}
                     </button>
                   </div>
-                  {project.password !== undefined && project.password !== '' && (
+                  {hasPassword && (
                     <div className="flex gap-2 animate-in fade-in slide-in-from-top-1">
                       <div className="relative flex-1">
                         <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500" size={14} />
                         <input
                           type="text"
-                          placeholder="Введите пароль..."
-                          value={project.password}
-                          onChange={(e) => onUpdateProject({ password: e.target.value })}
+                          placeholder={project.hasPassword ? 'Пароль задан, введите новый...' : 'Введите пароль...'}
+                          value={passwordDraft ?? project.password ?? ''}
+                          onChange={(e) => updatePassword(e.target.value)}
                           className="w-full bg-zinc-950 border border-zinc-800 rounded-lg pl-9 pr-3 py-2 text-sm text-zinc-300 outline-none focus:border-orange-500/50 transition-colors"
                         />
                       </div>
                     </div>
                   )}
                   <p className="text-[10px] text-zinc-500 italic">
-                    {project.password ? 'Просмотр будет доступен только после ввода этого пароля.' : 'Просмотр доступен всем, у кого есть ссылка.'}
+                    {hasPassword ? 'Просмотр будет доступен только после ввода этого пароля.' : 'Просмотр доступен всем, у кого есть ссылка.'}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { FilePlus2, LayoutTemplate, Shapes, Trash2, Users } from 'lucide-react';
+import { ProjectTemplate } from '../types';
+import { isBuiltinTemplate } from '../utils/projectTemplates';
+
+interface TemplateGalleryProps {
+  templates: ProjectTemplate[];
+  // null for an empty project
+  selectedId: string | null;
+  onSelect: (template: ProjectTemplate | null) => void;
+  // Only the author can delete a template
+  currentUserId?: string;
+  onDelete: (id: string) => void;
+}
+
+export default function TemplateGallery({ templates, selectedId, onSelect, currentUserId, onDelete }: TemplateGalleryProps) {
+  // Deleting takes a second click, shared templates may be in use by others
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const cardClass = (selected: boolean) =>
+    `group relative flex flex-col items-start gap-1 p-3 rounded-lg border text-left transition-colors ${selected ? 'border-blue-500 bg-blue-500/10 text-white' : 'border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-700'}`;
+
+  return (
+    <div className="grid grid-cols-2 gap-2 max-h-64 overflow-y-auto pr-1">
+      <button onClick={() => onSelect(null)} className={cardClass(selectedId === null)}>
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <FilePlus2 size={16} />
+          Пустой проект
+        </span>
+        <span className="text-xs text-zinc-500">Начать с чистого листа</span>
+      </button>
+
+      {templates.map(template => {
+        const Icon = template.type === 'canvas' ? Shapes : LayoutTemplate;
+        const canDelete = !isBuiltinTemplate(template) && template.ownerId === currentUserId;
+        return (
+          <button key={template.id} onClick={() => onSelect(template)} className={cardClass(selectedId === template.id)}>
+            <span className="flex items-center gap-2 text-sm font-medium w-full pr-5">
+              <Icon size={16} className="shrink-0" />
+              <span className="truncate">{template.title}</span>
+            </span>
+            {template.description && <span className="text-xs text-zinc-500 line-clamp-2">{template.description}</span>}
+            {!isBuiltinTemplate(template) && (
+              <span className="flex items-center gap-1 text-[11px] text-zinc-500">
+                {template.shared && <Users size={11} />}
+                {template.shared ? `Общий${template.authorName ? ` · ${template.authorName}` : ''}` : 'Личный'}
+              </span>
+            )}
+            {canDelete && (
+              <span
+                role="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (confirmingId === template.id) {
+                    onDelete(template.id);
+                    if (selectedId === template.id) onSelect(null);
+                  }
+                  setConfirmingId(confirmingId === template.id ? null : template.id);
+                }}
+                onMouseLeave={() => setConfirmingId(null)}
+                className={`absolute top-2 right-2 p-1 rounded hover:bg-zinc-800 ${confirmingId === template.id ? 'text-red-400' : 'opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400'}`}
+                title={confirmingId === template.id ? 'Нажмите ещё раз, чтобы удалить' : 'Удалить шаблон'}
+              >
+                <Trash2 size={12} />
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, Columns2, GitCompare, ListTree, Rows3, TextQuote, X } from 'lucide-react';
+import { ProjectVersion } from '../types';
+import {
+  LineChange,
+  SectionDiffNode,
+  SideBySideRow,
+  WordPart,
+  diffLines,
+  diffSections,
+  diffWords,
+  foldUnchanged,
+  isFold,
+  toSideBySide,
+} from '../utils/versionDiff';
+
+interface VersionDiffModalProps {
+  versions: ProjectVersion[];
+  // Live document, the default right-hand side
+  currentContent: string;
+  // Shown on the left, as the older side
+  initialVersionId: string;
+  onRestore: (version: ProjectVersion) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+type DiffLayout = 'split' | 'inline';
+type DiffLevel = 'lines' | 'sections';
+
+const versionLabel = (version: ProjectVersion) =>
+  `${new Date(version.timestamp).toLocaleString()} — ${version.title}${version.kind === 'auto' ? ' (авто)' : ''}`;
+
+function Words({ parts, changedClass }: { parts: WordPart[]; changedClass: string }) {
+  return (
+    <>
+      {parts.map((part, i) => part.changed ? <span key={i} className={changedClass}>{part.text}</span> : part.text)}
+    </>
+  );
+}
+
+const lineClass = (type: LineChange['type'] | undefined) =>
+  type === 'delete' ? 'bg-red-500/10 text-red-200' : type === 'insert' ? 'bg-green-500/10 text-green-200' : 'text-zinc-400';
+
+function FoldRow({ count, onExpand }: { count: number; onExpand: () => void }) {
+  return (
+    <button
+      onClick={onExpand}
+      className="block w-full py-1 text-center text-[11px] text-zinc-500 bg-zinc-950/60 hover:text-white hover:bg-zinc-800/60 transition-colors"
+    >
+      Показать неизменённые строки: {count}
+    </button>
+  );
+}
+
+function SplitCell({ change, words, side }: { change: LineChange | null; words?: WordPart[]; side: 'left' | 'right' }) {
+  return (
+    <div className={`flex min-w-0 ${change ? lineClass(change.type) : 'bg-zinc-950/40'}`}>
+      <span className="w-10 shrink-0 pr-2 text-right text-zinc-600 select-none">
+        {side === 'left' ? change?.oldLine : change?.newLine}
+      </span>
+      <span className="flex-1 whitespace-pre-wrap break-words">
+        {words ? <Words parts={words} changedClass={side === 'left' ? 'bg-red-500/30 rounded-sm' : 'bg-green-500/30 rounded-sm'} /> : change?.text}
+      </span>
+    </div>
+  );
+}
+
+function SplitDiff({ rows }: { rows: SideBySideRow[] }) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const items = useMemo(() => foldUnchanged(rows, row => row.left?.type !== 'equal'), [rows]);
+
+  const renderRow = (row: SideBySideRow, key: React.Key) => {
+    // A line edited in place highlights the changed words on both sides
+    const words = row.left?.type === 'delete' && row.right?.type === 'insert' ? diffWords(row.left.text, row.right.text) : null;
+    return (
+      <div key={key} className="grid grid-cols-2 divide-x divide-white/5">
+        <SplitCell change={row.left} words={words?.old} side="left" />
+        <SplitCell change={row.right} words={words?.new} side="right" />
+      </div>
+    );
+  };
+
+  return (
+    <div className="font-mono text-xs leading-5">
+      {items.map((item, i) => isFold(item)
+        ? expanded.has(i)
+          ? item.rows.map((row, j) => renderRow(row, `${i}-${j}`))
+          : <FoldRow key={i} count={item.rows.length} onExpand={() => setExpanded(new Set(expanded).add(i))} />
+        : renderRow(item, i))}
+    </div>
+  );
+}
+
+function InlineDiff({ changes }: { changes: LineChange[] }) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const items = useMemo(() => foldUnchanged(changes, change => change.type !== 'equal'), [changes]);
+
+  const renderLine = (change: LineChange, key: React.Key) => (
+    <div key={key} className={`flex ${lineClass(change.type)}`}>
+      <span className="w-10 shrink-0 pr-2 text-right text-zinc-600 select-none">{change.oldLine}</span>
+      <span className="w-10 shrink-0 pr-2 text-right text-zinc-600 select-none">{change.newLine}</span>
+      <span className="w-4 shrink-0 text-center select-none">{change.type === 'delete' ? '−' : change.type === 'insert' ? '+' : ''}</span>
+      <span className="flex-1 whitespace-pre-wrap break-words">{change.text}</span>
+    </div>
+  );
+
+  return (
+    <div className="font-mono text-xs leading-5">
+      {items.map((item, i) => isFold(item)
+        ? expanded.has(i)
+          ? item.rows.map((change, j) => renderLine(change, `${i}-${j}`))
+          : <FoldRow key={i} count={item.rows.length} onExpand={() => setExpanded(new Set(expanded).add(i))} />
+        : renderLine(item, i))}
+    </div>
+  );
+}
+
+const hasChanges = (node: SectionDiffNode): boolean =>
+  node.status !== 'unchanged' || node.moved || node.modified || !!node.previousText || node.children.some(hasChanges);
+
+function SectionTree({ nodes, depth = 0 }: { nodes: SectionDiffNode[]; depth?: number }) {
+  return (
+    <ul>
+      {nodes.map(node => {
+        const changed = hasChanges(node);
+        return (
+          <li key={`${node.status}-${node.id}`}>
+            <div className="flex flex-wrap items-center gap-2 py-1 text-sm" style={{ paddingLeft: depth * 18 }}>
+              <span className={
+                node.status === 'added' ? 'text-green-300'
+                  : node.status === 'removed' ? 'text-red-300 line-through'
+                    : changed ? 'text-white' : 'text-zinc-500'
+              }>
+                {node.text}
+              </span>
+              {node.status === 'added' && <span className="px-1.5 rounded bg-green-500/15 text-[11px] text-green-300">добавлен</span>}
+              {node.status === 'removed' && <span className="px-1.5 rounded bg-red-500/15 text-[11px] text-red-300">удалён</span>}
+              {node.moved && <span className="px-1.5 rounded bg-blue-500/15 text-[11px] text-blue-300">перемещён</span>}
+              {node.previousText && (
+                <span className="flex items-center gap-1 px-1.5 rounded bg-amber-500/15 text-[11px] text-amber-300">
+                  {node.previousText} <ArrowRight size={10} /> {node.text}
+                </span>
+              )}
+              {node.modified && <span className="px-1.5 rounded bg-amber-500/15 text-[11px] text-amber-300">изменён текст</span>}
+            </div>
+            {node.children.length > 0 && <SectionTree nodes={node.children} depth={depth + 1} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// Compares a saved version with the current document or with another version
+export default function VersionDiffModal({ versions, currentContent, initialVersionId, onRestore, onClose }: VersionDiffModalProps) {
+  const [baseId, setBaseId] = useState(initialVersionId);
+  const [targetId, setTargetId] = useState(CURRENT);
+  const [layout, setLayout] = useState<DiffLayout>('split');
+  const [level, setLevel] = useState<DiffLevel>('lines');
+
+  const base = versions.find(version => version.id === baseId) ?? versions[0];
+  const target = targetId === CURRENT ? null : versions.find(version => version.id === targetId) ?? null;
+  const oldContent = base?.content ?? '';
+  const newContent = target ? target.content : currentContent;
+
+  const changes = useMemo(() => level === 'lines' ? diffLines(oldContent, newContent) : [], [oldContent, newContent, level]);
+  const rows = useMemo(() => layout === 'split' ? toSideBySide(changes) : [], [changes, layout]);
+  const sections = useMemo(() => level === 'sections' ? diffSections(oldContent, newContent) : null, [oldContent, newContent, level]);
+
+  const added = changes.filter(change => change.type === 'insert').length;
+  const removed = changes.filter(change => change.type === 'delete').length;
+  const identical = level === 'lines' ? added + removed === 0 : !!sections && !hasChanges(sections.root);
+
+  const toggleClass = (active: boolean) =>
+    `flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`;
+
+  return (
+    <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-[65]" onClick={onClose}>
+      <div
+        className="bg-zinc-900 p-6 rounded-xl border border-white/10 w-[1100px] max-w-[calc(100vw-2rem)] h-[85vh] shadow-2xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-white flex items-center gap-2">
+            <GitCompare size={20} />
+            Сравнение версий
+          </h3>
+          <button onClick={onClose} className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800" title="Закрыть">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <select
+            value={base?.id}
+            onChange={e => setBaseId(e.target.value)}
+            className="min-w-0 max-w-xs bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 outline-none"
+          >
+            {versions.map(version => <option key={version.id} value={version.id} className="bg-zinc-900">{versionLabel(version)}</option>)}
+          </select>
+          <ArrowRight size={14} className="text-zinc-500" />
+          <select
+            value={targetId}
+            onChange={e => setTargetId(e.target.value)}
+            className="min-w-0 max-w-xs bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 outline-none"
+          >
+            <option value={CURRENT} className="bg-zinc-900">Текущий документ</option>
+            {versions.map(version => <option key={version.id} value={version.id} className="bg-zinc-900">{versionLabel(version)}</option>)}
+          </select>
+
+          <div className="flex items-center gap-1 ml-auto bg-zinc-950/50 p-1 rounded-lg border border-white/5">
+            <button onClick={() => setLevel('lines')} className={toggleClass(level === 'lines')} title="Построчно, в Markdown">
+              <TextQuote size={14} />
+              Строки
+            </button>
+            <button onClick={() => setLevel('sections')} className={toggleClass(level === 'sections')} title="Дерево заголовков">
+              <ListTree size={14} />
+              Разделы
+            </button>
+          </div>
+          {level === 'lines' && (
+            <div className="flex items-center gap-1 bg-zinc-950/50 p-1 rounded-lg border border-white/5">
+              <button onClick={() => setLayout('split')} className={toggleClass(layout === 'split')} title="Рядом">
+                <Columns2 size={14} />
+              </button>
+              <button onClick={() => setLayout('inline')} className={toggleClass(layout === 'inline')} title="Одной колонкой">
+                <Rows3 size={14} />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 mb-2 text-xs text-zinc-500">
+          {level === 'lines' ? (
+            <>
+              <span className="text-green-400">+{added}</span>
+              <span className="text-red-400">−{removed}</span>
+              <span>строк</span>
+            </>
+          ) : sections && (
+            <>
+              <span className="text-green-400">добавлено: {sections.summary.added}</span>
+              <span className="text-red-400">удалено: {sections.summary.removed}</span>
+              <span className="text-blue-400">перемещено: {sections.summary.moved}</span>
+              <span className="text-amber-400">переименовано: {sections.summary.renamed}, изменено: {sections.summary.modified}</span>
+              {sections.root.modified && <span className="text-amber-400">вступление изменено</span>}
+            </>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-auto rounded-lg border border-white/5 bg-zinc-950/50">
+          {identical ? (
+            <p className="text-zinc-500 text-center py-8 text-sm">Различий нет</p>
+          ) : level === 'sections' ? (
+            <div className="p-3">{sections && <SectionTree nodes={sections.root.children} />}</div>
+          ) : layout === 'split' ? (
+            <SplitDiff key={`${base?.id}-${targetId}`} rows={rows} />
+          ) : (
+            <InlineDiff key={`${base?.id}-${targetId}`} changes={changes} />
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-zinc-400 hover:text-white transition-colors">
+            Закрыть
+          </button>
+          {base && (
+            <button
+              onClick={() => onRestore(base)}
+              className="px-4 py-2 text-sm bg-zinc-800 hover:bg-zinc-700 text-white rounded transition-colors"
+              title={versionLabel(base)}
+            >
+              Восстановить левую версию
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useEffect, useImperativeHandle, useState } from 'react';
+import { FileText, Hash } from 'lucide-react';
+import { WikiLinkSuggestion } from '../utils/wikiLinks';
+
+export interface WikiLinkMenuHandle {
+  // Arrow keys and Enter while the menu is open; true when handled
+  onKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+interface WikiLinkMenuProps {
+  ref?: React.Ref<WikiLinkMenuHandle>;
+  items: WikiLinkSuggestion[];
+  // Caret position in viewport coordinates
+  rect: DOMRect | null;
+  onSelect: (item: WikiLinkSuggestion) => void;
+}
+
+export default function WikiLinkMenu({ ref, items, rect, onSelect }: WikiLinkMenuProps) {
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => setIndex(0), [items]);
+
+  useImperativeHandle(ref, () => ({
+    onKeyDown: (event) => {
+      if (items.length === 0) return false;
+      if (event.key === 'ArrowDown') {
+        setIndex((index + 1) % items.length);
+        return true;
+      }
+      if (event.key === 'ArrowUp') {
+        setIndex((index - 1 + items.length) % items.length);
+        return true;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        onSelect(items[index]);
+        return true;
+      }
+      return false;
+    },
+  }), [items, index, onSelect]);
+
+  if (!rect) return null;
+
+  return (
+    <div
+      className="fixed bg-zinc-900 border border-zinc-700 rounded shadow-xl py-1 z-50 min-w-[220px] max-w-[320px]"
+      style={{ left: rect.left, top: rect.bottom + 4 }}
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {items.length === 0 ? (
+        <div className="px-3 py-1.5 text-sm text-zinc-500">Ничего не найдено</div>
+      ) : (
+        items.map((item, i) => (
+          <button
+            key={`${item.attributes.target}#${item.attributes.heading ?? ''}`}
+            className={`w-full text-left px-3 py-1.5 text-sm flex items-center gap-2 transition-colors ${i === index ? 'bg-zinc-800 text-white' : 'text-zinc-200 hover:bg-zinc-800'}`}
+            onClick={() => onSelect(item)}
+            onMouseEnter={() => setIndex(i)}
+          >
+            {item.attributes.heading ? <Hash size={14} className="shrink-0 text-zinc-500" /> : <FileText size={14} className="shrink-0 text-zinc-500" />}
+            <span className="truncate">{item.title}</span>
+            {item.attributes.heading && <span className="ml-auto text-xs text-zinc-500 truncate">{item.detail}</span>}
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
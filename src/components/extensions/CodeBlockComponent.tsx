@@ -42,6 +42,12 @@ export default function CodeBlockComponent(props: any) {
   const [customExt, setCustomExt] = useState('');
   const contentRef = useRef<HTMLDivElement>(null);
 
+  // Find & replace landed on a match inside this block
+  const hasCurrentMatch = props.decorations?.some((decoration: any) => decoration.spec?.searchCurrent);
+  useEffect(() => {
+    if (hasCurrentMatch) setIsExpanded(true);
+  }, [hasCurrentMatch]);
+
   // Auto-detection logic (simple heuristics)
   useEffect(() => {
     if (language === 'auto' && props.node.textContent) {
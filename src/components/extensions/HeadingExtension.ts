@@ -0,0 +1,116 @@
+import { Heading, HeadingOptions } from '@tiptap/extension-heading';
+import { Plugin, PluginKey, Transaction } from '@tiptap/pm/state';
+import type MarkdownIt from 'markdown-it';
+import type StateCore from 'markdown-it/lib/rules_core/state_core.mjs';
+import { createHeadingId, formatAttributeList, formatHeadingAttributes, parseAttributeList, splitHeadingAttributes } from '../../utils/headingAttributes';
+
+export interface HeadingExtensionOptions extends HeadingOptions {
+  // Give every heading a unique persistent id (off for read-only viewers)
+  assignIds: boolean;
+}
+
+const patchedParsers = new WeakSet<MarkdownIt>();
+
+// Moves a trailing `{#id key=value}` block from the heading text onto the
+// <hN> element: the id as `id`, everything else (mindmap styles) as `data-attributes`
+function headingAttributesRule(state: StateCore) {
+  state.tokens.forEach((token, index) => {
+    if (token.type !== 'heading_open') return;
+    const inline = state.tokens[index + 1];
+    if (!inline || inline.type !== 'inline') return;
+
+    const { text, attributes } = splitHeadingAttributes(inline.content);
+    const { id, ...rest } = attributes;
+    const extra = formatAttributeList(rest);
+    if (!id && !extra) return;
+    if (id) token.attrSet('id', id);
+    if (extra) token.attrSet('data-attributes', extra);
+    inline.content = text;
+  });
+}
+
+// Fills in missing heading ids and re-issues duplicates (e.g. after copy/paste)
+export function assignHeadingIds(tr: Transaction, name = 'heading'): Transaction {
+  const seen = new Set<string>();
+  tr.doc.descendants((node, pos) => {
+    if (node.type.name !== name) return true;
+    let id: string | null = node.attrs.id;
+    if (!id || seen.has(id)) {
+      do {
+        id = createHeadingId();
+      } while (seen.has(id));
+      tr.setNodeMarkup(pos, undefined, { ...node.attrs, id });
+    }
+    seen.add(id);
+    return false;
+  });
+  return tr;
+}
+
+export default Heading.extend<HeadingExtensionOptions>({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      assignIds: true,
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      id: {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: element => element.getAttribute('id'),
+        renderHTML: attributes => attributes.id ? { id: attributes.id } : {},
+      },
+      // Remaining attribute block entries, kept so they survive editing
+      attributes: {
+        default: {},
+        keepOnSplit: false,
+        parseHTML: element => parseAttributeList(element.getAttribute('data-attributes') ?? '') ?? {},
+        renderHTML: attributes => {
+          const list = formatAttributeList(attributes.attributes ?? {});
+          return list ? { 'data-attributes': list } : {};
+        },
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          state.write(state.repeat('#', node.attrs.level) + ' ');
+          state.renderInline(node, false);
+          state.write(formatHeadingAttributes({ ...node.attrs.attributes, id: node.attrs.id }));
+          state.closeBlock(node);
+        },
+        parse: {
+          setup(markdownit: MarkdownIt) {
+            if (patchedParsers.has(markdownit)) return;
+            patchedParsers.add(markdownit);
+            markdownit.core.ruler.after('block', 'heading_attributes', headingAttributesRule);
+          },
+        },
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    if (!this.options.assignIds) return [];
+    const name = this.name;
+
+    return [
+      new Plugin({
+        key: new PluginKey('headingIds'),
+        appendTransaction: (transactions, _oldState, newState) => {
+          if (!transactions.some(tr => tr.docChanged)) return null;
+
+          const tr = assignHeadingIds(newState.tr, name);
+          return tr.docChanged ? tr : null;
+        },
+      }),
+    ];
+  },
+});
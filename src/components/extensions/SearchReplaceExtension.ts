@@ -0,0 +1,289 @@
+import { Extension } from '@tiptap/core';
+import { EditorState, Plugin, PluginKey, TextSelection, Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as PMNode } from '@tiptap/pm/model';
+
+export interface SearchOptions {
+  query: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+  // Heading whose section limits the search, null for the whole document
+  sectionId: string | null;
+}
+
+export interface SearchMatch {
+  from: number;
+  to: number;
+  // Capture groups for `$1` in regex replacements
+  groups: string[];
+  named: Record<string, string>;
+}
+
+export interface SearchState extends SearchOptions {
+  matches: SearchMatch[];
+  current: number;
+  // Invalid regular expression
+  error: string | null;
+}
+
+export interface SearchReplaceOptions {
+  // Mod-F; the find bar lives in React
+  onOpen: (() => void) | null;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    searchReplace: {
+      setSearch: (options: Partial<SearchOptions>) => ReturnType;
+      clearSearch: () => ReturnType;
+      goToMatch: (direction: 1 | -1) => ReturnType;
+      replaceMatch: (replacement: string) => ReturnType;
+      replaceAllMatches: (replacement: string) => ReturnType;
+    };
+  }
+}
+
+export const searchPluginKey = new PluginKey<SearchState>('searchReplace');
+
+const EMPTY_STATE: SearchState = {
+  query: '',
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+  sectionId: null,
+  matches: [],
+  current: 0,
+  error: null,
+};
+
+// Stands in for atoms (images, links to projects) so matches can't run across them
+const OBJECT_REPLACEMENT = '￼';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function buildPattern({ query, caseSensitive, wholeWord, regex }: SearchOptions): RegExp {
+  let source = regex ? query : escapeRegExp(query);
+  if (wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  return new RegExp(source, caseSensitive ? 'gu' : 'giu');
+}
+
+// Document range of a section: from its heading up to the next top-level
+// heading of the same or a higher level, as in the outline
+export function findSectionRange(doc: PMNode, sectionId: string): { from: number; to: number } | null {
+  let from = -1;
+  let level = 0;
+  let to = doc.content.size;
+  doc.forEach((node, offset) => {
+    if (node.type.name !== 'heading' || to !== doc.content.size) return;
+    if (from === -1) {
+      if (node.attrs.id === sectionId) {
+        from = offset;
+        level = node.attrs.level;
+      }
+    } else if (node.attrs.level <= level) {
+      to = offset;
+    }
+  });
+  return from === -1 ? null : { from, to };
+}
+
+// Id of the section around a position: the closest top-level heading above it
+export function findSectionIdAt(doc: PMNode, pos: number): string | null {
+  let id: string | null = null;
+  doc.forEach((node, offset) => {
+    if (offset <= pos && node.type.name === 'heading') id = node.attrs.id;
+  });
+  return id;
+}
+
+function findMatches(doc: PMNode, options: SearchOptions): SearchMatch[] {
+  const pattern = buildPattern(options);
+  const range = options.sectionId ? findSectionRange(doc, options.sectionId) : null;
+  const matches: SearchMatch[] = [];
+
+  doc.descendants((block, blockPos) => {
+    if (range && (blockPos + block.nodeSize <= range.from || blockPos >= range.to)) return false;
+    if (!block.isTextblock) return true;
+
+    // Text of the block with the document position of each character run
+    let text = '';
+    const runs: { offset: number; pos: number }[] = [];
+    block.forEach((child, childOffset) => {
+      runs.push({ offset: text.length, pos: blockPos + 1 + childOffset });
+      text += child.isText ? child.text! : OBJECT_REPLACEMENT;
+    });
+    const toPos = (index: number) => {
+      let run = runs[0];
+      for (const candidate of runs) {
+        if (candidate.offset > index) break;
+        run = candidate;
+      }
+      return run.pos + index - run.offset;
+    };
+
+    for (const match of text.matchAll(pattern)) {
+      if (match[0].length === 0 || match[0].includes(OBJECT_REPLACEMENT)) continue;
+      matches.push({
+        from: toPos(match.index!),
+        to: toPos(match.index! + match[0].length),
+        groups: [...match],
+        named: { ...match.groups },
+      });
+    }
+    return false;
+  });
+
+  return matches;
+}
+
+// `$&`, `$1` and `$<name>` in regex mode, the literal text otherwise
+function expandReplacement(replacement: string, match: SearchMatch, regex: boolean): string {
+  if (!regex) return replacement;
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match.groups[0];
+    if (name !== undefined) return match.named[name] ?? '';
+    const index = Number(ref);
+    return index < match.groups.length ? match.groups[index] ?? '' : token;
+  });
+}
+
+function computeState(doc: PMNode, options: SearchOptions, current: number): SearchState {
+  if (!options.query) return { ...options, matches: [], current: 0, error: null };
+  try {
+    const matches = findMatches(doc, options);
+    return { ...options, matches, current: Math.min(current, Math.max(matches.length - 1, 0)), error: null };
+  } catch (error) {
+    return { ...options, matches: [], current: 0, error: (error as Error).message };
+  }
+}
+
+const firstMatchAfter = (matches: SearchMatch[], pos: number) =>
+  Math.max(matches.findIndex(match => match.from >= pos), 0);
+
+function selectMatch(tr: Transaction, match: SearchMatch | undefined) {
+  if (match) tr.setSelection(TextSelection.create(tr.doc, match.from, match.to)).scrollIntoView();
+  return tr;
+}
+
+const getState = (state: EditorState) => searchPluginKey.getState(state) ?? EMPTY_STATE;
+
+export default Extension.create<SearchReplaceOptions>({
+  name: 'searchReplace',
+
+  addOptions() {
+    return {
+      onOpen: null,
+    };
+  },
+
+  addCommands() {
+    return {
+      setSearch: (options) => ({ state, tr, dispatch }) => {
+        const previous = getState(state);
+        const next = computeState(state.doc, { ...previous, ...options }, 0);
+        next.current = firstMatchAfter(next.matches, state.selection.from);
+        if (dispatch) dispatch(tr.setMeta(searchPluginKey, next));
+        return true;
+      },
+
+      clearSearch: () => ({ tr, dispatch }) => {
+        if (dispatch) dispatch(tr.setMeta(searchPluginKey, EMPTY_STATE));
+        return true;
+      },
+
+      goToMatch: (direction) => ({ state, tr, dispatch }) => {
+        const search = getState(state);
+        if (search.matches.length === 0) return false;
+        const current = (search.current + direction + search.matches.length) % search.matches.length;
+        if (dispatch) {
+          tr.setMeta(searchPluginKey, { ...search, current });
+          dispatch(selectMatch(tr, search.matches[current]));
+        }
+        return true;
+      },
+
+      replaceMatch: (replacement) => ({ state, tr, dispatch }) => {
+        const search = getState(state);
+        const match = search.matches[search.current];
+        if (!match) return false;
+        if (dispatch) {
+          const text = expandReplacement(replacement, match, search.regex);
+          if (text) {
+            tr.insertText(text, match.from, match.to);
+          } else {
+            tr.delete(match.from, match.to);
+          }
+          // The plugin re-runs the search; select whatever now follows
+          const next = computeState(tr.doc, search, 0);
+          next.current = firstMatchAfter(next.matches, tr.mapping.map(match.to));
+          tr.setMeta(searchPluginKey, next);
+          dispatch(selectMatch(tr, next.matches[next.current]));
+        }
+        return true;
+      },
+
+      // One transaction, so the whole replacement is a single undo step
+      replaceAllMatches: (replacement) => ({ state, tr, dispatch }) => {
+        const search = getState(state);
+        if (search.matches.length === 0) return false;
+        if (dispatch) {
+          [...search.matches].reverse().forEach(match => {
+            const text = expandReplacement(replacement, match, search.regex);
+            if (text) {
+              tr.insertText(text, match.from, match.to);
+            } else {
+              tr.delete(match.from, match.to);
+            }
+          });
+          dispatch(tr);
+        }
+        return true;
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-f': () => {
+        if (!this.options.onOpen) return false;
+        this.options.onOpen();
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SearchState>({
+        key: searchPluginKey,
+        state: {
+          init: () => EMPTY_STATE,
+          apply: (tr, value) => {
+            const meta = tr.getMeta(searchPluginKey) as SearchState | undefined;
+            if (meta) return meta;
+            if (!tr.docChanged || !value.query) return value;
+            return computeState(tr.doc, value, value.current);
+          },
+        },
+        props: {
+          decorations: (state) => {
+            const { matches, current } = getState(state);
+            if (matches.length === 0) return DecorationSet.empty;
+
+            const decorations = matches.map((match, i) =>
+              Decoration.inline(match.from, match.to, { class: i === current ? 'search-match search-match-current' : 'search-match' }));
+
+            // Lets a collapsed code block open up to show the current match
+            const $pos = state.doc.resolve(matches[current].from);
+            if ($pos.parent.type.name === 'codeBlock') {
+              decorations.push(Decoration.node($pos.before(), $pos.after(), {}, { searchCurrent: true }));
+            }
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,22 @@
+import { Table } from '@tiptap/extension-table';
+
+// Table with a fixed or content-sized layout mode
+export default Table.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      layoutMode: {
+        default: 'fixed',
+        parseHTML: element => element.getAttribute('data-layout-mode'),
+        renderHTML: attributes => {
+          return {
+            'data-layout-mode': attributes.layoutMode,
+            style: attributes.layoutMode === 'fixed'
+              ? 'table-layout: fixed; width: 100%'
+              : 'table-layout: auto; width: auto; min-width: 100%',
+          }
+        },
+      },
+    }
+  }
+});
@@ -0,0 +1,161 @@
+import { Node, mergeAttributes, nodeInputRule } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import Suggestion, { SuggestionOptions } from '@tiptap/suggestion';
+import type MarkdownIt from 'markdown-it';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline.mjs';
+import { WikiLinkAttributes, WikiLinkSuggestion, formatWikiLink, parseWikiLink, wikiLinkText } from '../../utils/wikiLinks';
+
+export interface WikiLinkOptions {
+  // Autocomplete after `[[`; links can still be typed in full without it
+  suggestion: Pick<SuggestionOptions<WikiLinkSuggestion, WikiLinkAttributes>, 'items' | 'render'> | null;
+  onNavigate: ((link: WikiLinkAttributes) => void) | null;
+}
+
+const patchedParsers = new WeakSet<MarkdownIt>();
+
+// `[[...]]` becomes a single token instead of text, which the serializer would escape
+function wikiLinkRule(state: StateInline, silent: boolean) {
+  if (state.src.charCodeAt(state.pos) !== 0x5B /* [ */ || state.src.charCodeAt(state.pos + 1) !== 0x5B) return false;
+
+  const match = state.src.slice(state.pos).match(/^\[\[([^[\]\n]+)\]\]/);
+  const link = match && parseWikiLink(match[1]);
+  if (!link) return false;
+
+  if (!silent) {
+    const token = state.push('wiki_link', 'span', 0);
+    token.meta = link;
+  }
+  state.pos += match[0].length;
+  return true;
+}
+
+export default Node.create<WikiLinkOptions>({
+  name: 'wikiLink',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: false,
+
+  addOptions() {
+    return {
+      suggestion: null,
+      onNavigate: null,
+    };
+  },
+
+  addAttributes() {
+    return {
+      target: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-target') ?? '',
+        renderHTML: attributes => ({ 'data-target': attributes.target }),
+      },
+      heading: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-heading'),
+        renderHTML: attributes => attributes.heading ? { 'data-heading': attributes.heading } : {},
+      },
+      label: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-label'),
+        renderHTML: attributes => attributes.label ? { 'data-label': attributes.label } : {},
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-wiki-link]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, {
+        'data-wiki-link': '',
+        class: 'text-blue-400 hover:underline cursor-pointer',
+      }),
+      wikiLinkText(node.attrs as WikiLinkAttributes),
+    ];
+  },
+
+  renderText({ node }) {
+    return formatWikiLink(node.attrs as WikiLinkAttributes);
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          state.write(formatWikiLink(node.attrs));
+        },
+        parse: {
+          setup(markdownit: MarkdownIt) {
+            if (patchedParsers.has(markdownit)) return;
+            patchedParsers.add(markdownit);
+            markdownit.inline.ruler.before('link', 'wiki_link', wikiLinkRule);
+            markdownit.renderer.rules.wiki_link = (tokens, index) => {
+              const link = tokens[index].meta as WikiLinkAttributes;
+              const escape = markdownit.utils.escapeHtml;
+              const attributes = [
+                `data-target="${escape(link.target)}"`,
+                link.heading ? `data-heading="${escape(link.heading)}"` : '',
+                link.label ? `data-label="${escape(link.label)}"` : '',
+              ].filter(Boolean).join(' ');
+              return `<span data-wiki-link ${attributes}>${escape(wikiLinkText(link))}</span>`;
+            };
+          },
+        },
+      },
+    };
+  },
+
+  addInputRules() {
+    return [
+      nodeInputRule({
+        find: /\[\[([^[\]\n]+)\]\]$/,
+        type: this.type,
+        getAttributes: match => parseWikiLink(match[1]) ?? {},
+      }),
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    const plugins: Plugin[] = [];
+    const { suggestion, onNavigate } = this.options;
+
+    if (onNavigate) {
+      plugins.push(new Plugin({
+        key: new PluginKey('wikiLinkNavigation'),
+        props: {
+          handleClickOn: (_view, _pos, node) => {
+            if (node.type !== this.type) return false;
+            onNavigate(node.attrs as WikiLinkAttributes);
+            return true;
+          },
+        },
+      }));
+    }
+
+    if (suggestion) {
+      plugins.push(Suggestion<WikiLinkSuggestion, WikiLinkAttributes>({
+        editor: this.editor,
+        pluginKey: new PluginKey('wikiLinkSuggestion'),
+        char: '[[',
+        allowSpaces: true,
+        ...suggestion,
+        command: ({ editor, range, props }) => {
+          editor.chain()
+            .focus()
+            .insertContentAt(range, [{ type: this.name, attrs: props }, { type: 'text', text: ' ' }])
+            .run();
+        },
+      }));
+    }
+
+    return plugins;
+  },
+});
@@ -0,0 +1,20 @@
+import React, { createContext, useContext } from 'react';
+import { ProjectRepository } from '../repositories';
+
+const ProjectRepositoryContext = createContext<ProjectRepository | null>(null);
+
+export function useProjectRepository() {
+  const context = useContext(ProjectRepositoryContext);
+  if (!context) {
+    throw new Error('useProjectRepository must be used within a ProjectRepositoryProvider');
+  }
+  return context;
+}
+
+export function ProjectRepositoryProvider({ repository, children }: { repository: ProjectRepository; children: React.ReactNode }) {
+  return (
+    <ProjectRepositoryContext.Provider value={repository}>
+      {children}
+    </ProjectRepositoryContext.Provider>
+  );
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useProjectRepository } from '../contexts/ProjectRepositoryContext';
+import { AutoVersionReason, ProjectVersion } from '../types';
+import { autoVersionMinutes } from '../lib/config';
+import { findThinnedVersions } from '../utils/versionRetention';
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+// Consecutive mindmap operations share one snapshot; the undo history covers the steps in between
+const BULK_EDIT_GAP_MS = 60 * 1000;
+
+interface AutoVersionsOptions {
+  projectId: string;
+  title: string;
+  content: string;
+}
+
+// Automatic snapshots of the document: after `autoVersionMinutes` of local
+// editing, when the editing session ends, and on request before a restore or
+// a bulk mindmap operation. Only the client that made the edits writes them.
+export function useAutoVersions({ projectId, title, content }: AutoVersionsOptions) {
+  const repository = useProjectRepository();
+  const latestRef = useRef({ title, content });
+  latestRef.current = { title, content };
+  // Content of the last snapshot this session, null before the first one
+  const lastSnapshotRef = useRef<{ content: string; at: number } | null>(null);
+  // First local edit since the last snapshot
+  const firstEditRef = useRef<number | null>(null);
+
+  const snapshot = useCallback(async (reason: AutoVersionReason) => {
+    if (autoVersionMinutes === 0) return;
+    // Read before any await: a restore replaces the content right after calling this
+    const { title, content } = latestRef.current;
+    const now = Date.now();
+    const last = lastSnapshotRef.current;
+    if (last?.content === content) return;
+    if (reason === 'before-bulk-edit' && last && now - last.at < BULK_EDIT_GAP_MS) return;
+    if ((reason === 'interval' || reason === 'session-end') && firstEditRef.current === null) return;
+
+    lastSnapshotRef.current = { content, at: now };
+    firstEditRef.current = null;
+    const version: ProjectVersion = {
+      id: crypto.randomUUID(),
+      projectId,
+      content,
+      title,
+      timestamp: now,
+      kind: 'auto',
+      reason,
+    };
+    try {
+      await repository.saveVersion(version);
+      const thinned = findThinnedVersions(await repository.listVersions(projectId), now);
+      await Promise.all(thinned.map(old => repository.deleteVersion(projectId, old.id)));
+    } catch (error) {
+      console.error("Error saving automatic version:", error);
+    }
+  }, [projectId, repository]);
+
+  // Called for local edits only, remote changes are snapshotted by their authors
+  const markEdited = useCallback(() => {
+    if (firstEditRef.current === null) firstEditRef.current = Date.now();
+  }, []);
+
+  useEffect(() => {
+    if (autoVersionMinutes === 0) return;
+
+    const interval = setInterval(() => {
+      const firstEdit = firstEditRef.current;
+      if (firstEdit !== null && Date.now() - firstEdit >= autoVersionMinutes * 60 * 1000) {
+        snapshot('interval');
+      }
+    }, CHECK_INTERVAL_MS);
+
+    const handlePageHide = () => { snapshot('session-end'); };
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', handlePageHide);
+      snapshot('session-end');
+    };
+  }, [snapshot]);
+
+  return { snapshot, markEdited };
+}
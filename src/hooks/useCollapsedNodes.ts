@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useProjectRepository } from '../contexts/ProjectRepositoryContext';
+
+const localKey = (projectId: string) => `notiont:collapsed:${projectId}`;
+
+// Collapsed mindmap branches for the current user. Signed-in users keep them in
+// the repository (so they follow them across devices); anonymous visitors of a
+// public page fall back to localStorage.
+export function useCollapsedNodes(projectId: string | undefined) {
+  const { user } = useAuth();
+  const repository = useProjectRepository();
+  const [collapsed, setCollapsedState] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    if (!projectId) return;
+    let active = true;
+
+    const load = user
+      ? repository.getCollapsedNodes(user.uid, projectId)
+      : Promise.resolve(JSON.parse(localStorage.getItem(localKey(projectId)) || '[]') as string[]);
+
+    load
+      .then(ids => { if (active) setCollapsedState(new Set(ids)); })
+      .catch(error => console.error("Error loading collapsed nodes:", error));
+
+    return () => { active = false; };
+  }, [projectId, user, repository]);
+
+  const setCollapsed = useCallback((next: Set<string>) => {
+    setCollapsedState(next);
+    if (!projectId) return;
+
+    const ids = [...next];
+    if (user) {
+      repository.saveCollapsedNodes(user.uid, projectId, ids)
+        .catch(error => console.error("Error saving collapsed nodes:", error));
+    } else {
+      localStorage.setItem(localKey(projectId), JSON.stringify(ids));
+    }
+  }, [projectId, user, repository]);
+
+  return [collapsed, setCollapsed] as const;
+}
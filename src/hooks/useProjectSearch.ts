@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Project } from '../types';
+import { createSearchIndex } from '../utils/searchIndex';
+
+// Full-text index over the user's projects, kept up to date with the project
+// listener. `version` changes whenever indexed content does, so callers can
+// memoize results on it.
+export function useProjectSearch(projects: Project[]) {
+  const [index] = useState(createSearchIndex);
+  const [version, setVersion] = useState(0);
+  const [indexing, setIndexing] = useState(false);
+
+  useEffect(() => {
+    return index.sync(projects, (pending) => {
+      setIndexing(pending > 0);
+      setVersion(v => v + 1);
+    });
+  }, [index, projects]);
+
+  const search = useCallback((query: string) => index.search(query), [index]);
+
+  return { search, version, indexing };
+}
+
+export type ProjectSearch = ReturnType<typeof useProjectSearch>;
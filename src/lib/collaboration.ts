@@ -0,0 +1,25 @@
+import * as Y from 'yjs';
+import { HocuspocusProvider } from '@hocuspocus/provider';
+import { getAuthToken } from './identity';
+
+// Hocuspocus endpoint mounted by server.ts. Can be overridden when the static
+// frontend is deployed separately from the collaboration server, or set to
+// `off` on static deploys without one, where the editor then starts offline.
+export const collaborationUrl: string | null = import.meta.env.VITE_COLLAB_URL === 'off'
+  ? null
+  : import.meta.env.VITE_COLLAB_URL
+    || `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/collaboration`;
+
+export const collaborationDocumentName = (projectId: string) => `project-${projectId}`;
+
+// Null when collaboration is turned off
+export function createCollaborationProvider(projectId: string, document: Y.Doc): HocuspocusProvider | null {
+  if (!collaborationUrl) return null;
+  return new HocuspocusProvider({
+    url: collaborationUrl,
+    name: collaborationDocumentName(projectId),
+    document,
+    // Checked against the project's owner and sharing settings by server.ts
+    token: async () => (await getAuthToken()) ?? '',
+  });
+}
@@ -0,0 +1,13 @@
+export type StorageBackend = 'firebase' | 'sqlite';
+
+// `sqlite` is the self-hosted mode: projects live in the Express server's
+// SQLite database and Firebase is not initialized at all.
+export const storageBackend: StorageBackend = import.meta.env.VITE_STORAGE_BACKEND === 'sqlite' ? 'sqlite' : 'firebase';
+
+// Days a project stays in the trash before it is deleted for good, 0 keeps it forever
+const retentionSetting = import.meta.env.VITE_TRASH_RETENTION_DAYS;
+export const trashRetentionDays: number = retentionSetting && Number(retentionSetting) >= 0 ? Number(retentionSetting) : 30;
+
+// Minutes of editing between automatic version snapshots, 0 turns automatic snapshots off
+const autoVersionSetting = import.meta.env.VITE_AUTO_VERSION_MINUTES;
+export const autoVersionMinutes: number = autoVersionSetting && Number(autoVersionSetting) >= 0 ? Number(autoVersionSetting) : 10;
@@ -0,0 +1,42 @@
+import type { User } from 'firebase/auth';
+import { auth, isFirebaseEnabled } from './firebase';
+
+// The subset of the Firebase user the app relies on, so a local identity can stand in for it
+export type AppUser = Pick<User, 'uid' | 'email' | 'displayName' | 'photoURL'>;
+
+const LOCAL_USER_KEY = 'notiont:localUser';
+const LOCAL_SECRET_KEY = 'notiont:localSecret';
+
+// Self-hosted mode has no auth provider: each browser gets a persistent local identity
+export function getLocalUser(): AppUser {
+  const stored = localStorage.getItem(LOCAL_USER_KEY);
+  if (stored) return JSON.parse(stored);
+
+  const user: AppUser = {
+    uid: `local-${crypto.randomUUID()}`,
+    email: null,
+    displayName: 'Локальный пользователь',
+    photoURL: null,
+  };
+  localStorage.setItem(LOCAL_USER_KEY, JSON.stringify(user));
+  return user;
+}
+
+// Proves the local identity to server.ts, which binds it to the uid on first use
+function getLocalSecret(): string {
+  let secret = localStorage.getItem(LOCAL_SECRET_KEY);
+  if (!secret) {
+    secret = crypto.randomUUID();
+    localStorage.setItem(LOCAL_SECRET_KEY, secret);
+  }
+  return secret;
+}
+
+// Bearer token for the REST API and the collaboration endpoint: the Firebase
+// ID token, or `local:<uid>:<secret>` in self-hosted mode. Null when signed out.
+export async function getAuthToken(): Promise<string | null> {
+  if (isFirebaseEnabled) {
+    return auth.currentUser ? auth.currentUser.getIdToken() : null;
+  }
+  return `local:${getLocalUser().uid}:${getLocalSecret()}`;
+}
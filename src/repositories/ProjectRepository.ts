@@ -0,0 +1,45 @@
+import { Project, ProjectTemplate, ProjectVersion, RemoteCursor } from '../types';
+
+export type Unsubscribe = () => void;
+
+// Storage boundary for projects, their version history and editor presence.
+// UI code only talks to this interface, so backends can be swapped (Firebase,
+// the self-hosted REST API, in-memory for tests) without touching components.
+export interface ProjectRepository {
+  createProjectId(): string;
+
+  subscribeToOwnerProjects(ownerId: string, onChange: (projects: Project[]) => void, onError?: (error: Error) => void): Unsubscribe;
+  subscribeToProject(id: string, onChange: (project: Project | null) => void, onError?: (error: Error) => void): Unsubscribe;
+  saveProject(project: Project): Promise<void>;
+  patchProject(id: string, updates: Partial<Project>): Promise<void>;
+  deleteProject(id: string): Promise<void>;
+  // Whether `password` unlocks the project's public page
+  checkProjectPassword(id: string, password: string): Promise<boolean>;
+
+  listVersions(projectId: string): Promise<ProjectVersion[]>;
+  saveVersion(version: ProjectVersion): Promise<void>;
+  patchVersion(projectId: string, versionId: string, updates: Partial<ProjectVersion>): Promise<void>;
+  deleteVersion(projectId: string, versionId: string): Promise<void>;
+
+  subscribeToPresence(projectId: string, onChange: (cursors: Record<string, RemoteCursor>) => void): Unsubscribe;
+  setPresence(projectId: string, uid: string, cursor: RemoteCursor | null): Promise<void>;
+
+  // The user's own templates plus the ones shared by anybody
+  subscribeToTemplates(ownerId: string, onChange: (templates: ProjectTemplate[]) => void): Unsubscribe;
+  saveTemplate(template: ProjectTemplate): Promise<void>;
+  deleteTemplate(id: string): Promise<void>;
+
+  // Per-user mindmap UI state: ids of collapsed heading nodes
+  getCollapsedNodes(uid: string, projectId: string): Promise<string[]>;
+  saveCollapsedNodes(uid: string, projectId: string, nodeIds: string[]): Promise<void>;
+}
+
+export const sortByLastModified = (projects: Project[]) =>
+  [...projects].sort((a, b) => b.lastModified - a.lastModified);
+
+export const sortByTimestamp = (versions: ProjectVersion[]) =>
+  [...versions].sort((a, b) => b.timestamp - a.timestamp);
+
+
+export const sortByTitle = (templates: ProjectTemplate[]) =>
+  [...templates].sort((a, b) => a.title.localeCompare(b.title, 'ru'));
@@ -0,0 +1,66 @@
+import * as api from '../services/projectsApi';
+import { ProjectRepository, Unsubscribe, sortByLastModified, sortByTimestamp, sortByTitle } from './ProjectRepository';
+
+const POLL_INTERVAL_MS = 5000;
+
+// The REST API has no push channel, so subscriptions poll. Document content
+// itself is synced through Yjs and does not depend on this interval.
+const poll = <T>(load: () => Promise<T>, onData: (data: T) => void, onError?: (error: Error) => void): Unsubscribe => {
+  let active = true;
+  const run = () => load()
+    .then(data => { if (active) onData(data); })
+    .catch(error => { if (active) onError?.(error); });
+
+  run();
+  const interval = setInterval(run, POLL_INTERVAL_MS);
+  return () => {
+    active = false;
+    clearInterval(interval);
+  };
+};
+
+// Backend for the self-hosted SQLite server (VITE_STORAGE_BACKEND=sqlite)
+export function createApiProjectRepository(): ProjectRepository {
+  return {
+    createProjectId: () => crypto.randomUUID(),
+
+    // The server lists the projects of the signed-in user, who is the owner asked for
+    subscribeToOwnerProjects: (_ownerId, onChange, onError) =>
+      poll(() => api.fetchProjects(), projects => onChange(sortByLastModified(projects)), onError),
+
+    subscribeToProject: (id, onChange, onError) =>
+      poll(() => api.fetchProject(id), onChange, onError),
+
+    saveProject: async (project) => { await api.putProject(project); },
+
+    patchProject: async (id, updates) => { await api.patchProject(id, updates); },
+
+    deleteProject: (id) => api.deleteProject(id),
+
+    checkProjectPassword: async (id, password) => (await api.checkProjectPassword(id, password)).valid,
+
+    listVersions: async (projectId) => sortByTimestamp(await api.fetchVersions(projectId)),
+
+    saveVersion: async (version) => { await api.postVersion(version); },
+
+    patchVersion: async (projectId, versionId, updates) => { await api.patchVersion(projectId, versionId, updates); },
+
+    deleteVersion: (projectId, versionId) => api.deleteVersion(projectId, versionId),
+
+    // Presence is not relayed by the self-hosted server yet
+    subscribeToPresence: () => () => {},
+
+    setPresence: async () => {},
+
+    subscribeToTemplates: (_ownerId, onChange) =>
+      poll(() => api.fetchTemplates(), templates => onChange(sortByTitle(templates))),
+
+    saveTemplate: async (template) => { await api.putTemplate(template); },
+
+    deleteTemplate: (id) => api.deleteTemplate(id),
+
+    getCollapsedNodes: (uid, projectId) => api.fetchCollapsedNodes(projectId, uid),
+
+    saveCollapsedNodes: (uid, projectId, nodeIds) => api.putCollapsedNodes(projectId, uid, nodeIds),
+  };
+}
@@ -0,0 +1,91 @@
+import { Database, ref, onValue, get, set, push, remove, update, query, orderByChild, equalTo } from 'firebase/database';
+import { Project, ProjectTemplate, ProjectVersion } from '../types';
+import { ProjectRepository, sortByLastModified, sortByTimestamp, sortByTitle } from './ProjectRepository';
+
+// Realtime Database layout: `projects/{id}`, `project_versions/{projectId}/{versionId}`,
+// `cursors/{projectId}/{uid}`, `templates/{id}` and `users/{uid}/...` (see database.rules.json).
+export function createFirebaseProjectRepository(database: Database): ProjectRepository {
+  return {
+    createProjectId: () => push(ref(database, 'projects')).key!,
+
+    subscribeToOwnerProjects: (ownerId, onChange, onError) => {
+      const projectsRef = query(ref(database, 'projects'), orderByChild('ownerId'), equalTo(ownerId));
+      return onValue(projectsRef, (snapshot) => {
+        const data = snapshot.val();
+        onChange(data ? sortByLastModified(Object.values(data) as Project[]) : []);
+      }, onError);
+    },
+
+    subscribeToProject: (id, onChange, onError) =>
+      onValue(ref(database, `projects/${id}`), (snapshot) => onChange(snapshot.val()), onError),
+
+    saveProject: (project) => set(ref(database, `projects/${project.id}`), project),
+
+    patchProject: (id, updates) => update(ref(database, `projects/${id}`), updates),
+
+    deleteProject: async (id) => {
+      await remove(ref(database, `project_versions/${id}`));
+      await remove(ref(database, `projects/${id}`));
+    },
+
+    checkProjectPassword: async (id, password) => {
+      const snapshot = await get(ref(database, `projects/${id}/password`));
+      return !!snapshot.val() && snapshot.val() === password;
+    },
+
+    listVersions: async (projectId) => {
+      const snapshot = await get(ref(database, `project_versions/${projectId}`));
+      return snapshot.exists() ? sortByTimestamp(Object.values(snapshot.val()) as ProjectVersion[]) : [];
+    },
+
+    saveVersion: (version) => set(ref(database, `project_versions/${version.projectId}/${version.id}`), version),
+
+    patchVersion: (projectId, versionId, updates) =>
+      update(ref(database, `project_versions/${projectId}/${versionId}`), updates),
+
+    deleteVersion: (projectId, versionId) => remove(ref(database, `project_versions/${projectId}/${versionId}`)),
+
+    subscribeToPresence: (projectId, onChange) =>
+      onValue(ref(database, `cursors/${projectId}`), (snapshot) => onChange(snapshot.val() || {})),
+
+    setPresence: (projectId, uid, cursor) => set(ref(database, `cursors/${projectId}/${uid}`), cursor),
+
+    // Two queries, the rules only allow reading templates by owner or by the shared flag
+    subscribeToTemplates: (ownerId, onChange) => {
+      const templatesRef = ref(database, 'templates');
+      let own: ProjectTemplate[] = [];
+      let shared: ProjectTemplate[] = [];
+      const emit = () => {
+        const byId = new Map([...shared, ...own].map(template => [template.id, template]));
+        onChange(sortByTitle([...byId.values()]));
+      };
+      const unsubscribeOwn = onValue(query(templatesRef, orderByChild('ownerId'), equalTo(ownerId)), (snapshot) => {
+        own = Object.values(snapshot.val() || {});
+        emit();
+      });
+      const unsubscribeShared = onValue(query(templatesRef, orderByChild('shared'), equalTo(true)), (snapshot) => {
+        shared = Object.values(snapshot.val() || {});
+        emit();
+      });
+      return () => {
+        unsubscribeOwn();
+        unsubscribeShared();
+      };
+    },
+
+    saveTemplate: (template) => set(ref(database, `templates/${template.id}`), template),
+
+    deleteTemplate: (id) => remove(ref(database, `templates/${id}`)),
+
+    getCollapsedNodes: async (uid, projectId) => {
+      const snapshot = await get(ref(database, `users/${uid}/collapsed_nodes/${projectId}`));
+      return snapshot.exists() ? Object.keys(snapshot.val()) : [];
+    },
+
+    // Stored as a key set, heading ids are valid database keys
+    saveCollapsedNodes: (uid, projectId, nodeIds) => set(
+      ref(database, `users/${uid}/collapsed_nodes/${projectId}`),
+      nodeIds.length > 0 ? Object.fromEntries(nodeIds.map(id => [id, true])) : null,
+    ),
+  };
+}
@@ -0,0 +1,117 @@
+import { Project, ProjectTemplate, ProjectVersion, RemoteCursor } from '../types';
+import { ProjectRepository, sortByLastModified, sortByTimestamp, sortByTitle } from './ProjectRepository';
+
+type Listener = () => void;
+
+// Non-persistent backend for tests and local prototyping. Listeners are
+// notified synchronously after every write, like the Firebase SDK does for
+// local writes.
+export function createInMemoryProjectRepository(initialProjects: Project[] = []): ProjectRepository {
+  const projects = new Map<string, Project>(initialProjects.map(project => [project.id, project]));
+  const versions = new Map<string, Map<string, ProjectVersion>>();
+  const presence = new Map<string, Map<string, RemoteCursor>>();
+  const collapsedNodes = new Map<string, string[]>();
+  const templates = new Map<string, ProjectTemplate>();
+  const listeners = new Set<Listener>();
+  let nextId = 1;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const listen = (listener: Listener) => {
+    listeners.add(listener);
+    listener();
+    return () => { listeners.delete(listener); };
+  };
+
+  const versionsOf = (projectId: string) => {
+    if (!versions.has(projectId)) versions.set(projectId, new Map());
+    return versions.get(projectId)!;
+  };
+
+  const presenceOf = (projectId: string) => {
+    if (!presence.has(projectId)) presence.set(projectId, new Map());
+    return presence.get(projectId)!;
+  };
+
+  return {
+    createProjectId: () => `project-${nextId++}`,
+
+    subscribeToOwnerProjects: (ownerId, onChange) => listen(() => {
+      onChange(sortByLastModified([...projects.values()].filter(project => project.ownerId === ownerId)));
+    }),
+
+    subscribeToProject: (id, onChange) => listen(() => onChange(projects.get(id) ?? null)),
+
+    saveProject: async (project) => {
+      projects.set(project.id, { ...project });
+      notify();
+    },
+
+    patchProject: async (id, updates) => {
+      const existing = projects.get(id);
+      if (!existing) throw new Error(`Project ${id} not found`);
+      projects.set(id, { ...existing, ...updates });
+      notify();
+    },
+
+    deleteProject: async (id) => {
+      versions.delete(id);
+      projects.delete(id);
+      notify();
+    },
+
+    checkProjectPassword: async (id, password) => {
+      const stored = projects.get(id)?.password;
+      return !!stored && stored === password;
+    },
+
+    listVersions: async (projectId) => sortByTimestamp([...versionsOf(projectId).values()]),
+
+    saveVersion: async (version) => {
+      versionsOf(version.projectId).set(version.id, { ...version });
+    },
+
+    patchVersion: async (projectId, versionId, updates) => {
+      const existing = versionsOf(projectId).get(versionId);
+      if (!existing) throw new Error(`Version ${versionId} not found`);
+      versionsOf(projectId).set(versionId, { ...existing, ...updates });
+    },
+
+    deleteVersion: async (projectId, versionId) => {
+      versionsOf(projectId).delete(versionId);
+    },
+
+    subscribeToPresence: (projectId, onChange) => listen(() => {
+      onChange(Object.fromEntries(presenceOf(projectId)));
+    }),
+
+    setPresence: async (projectId, uid, cursor) => {
+      if (cursor) {
+        presenceOf(projectId).set(uid, cursor);
+      } else {
+        presenceOf(projectId).delete(uid);
+      }
+      notify();
+    },
+
+    subscribeToTemplates: (ownerId, onChange) => listen(() => {
+      onChange(sortByTitle([...templates.values()].filter(template => template.ownerId === ownerId || template.shared)));
+    }),
+
+    saveTemplate: async (template) => {
+      templates.set(template.id, { ...template });
+      notify();
+    },
+
+    deleteTemplate: async (id) => {
+      templates.delete(id);
+      notify();
+    },
+
+    getCollapsedNodes: async (uid, projectId) => collapsedNodes.get(`${uid}/${projectId}`) ?? [],
+
+    saveCollapsedNodes: async (uid, projectId, nodeIds) => {
+      collapsedNodes.set(`${uid}/${projectId}`, [...nodeIds]);
+    },
+  };
+}
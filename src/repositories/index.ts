@@ -0,0 +1,14 @@
+import { database } from '../lib/firebase';
+import { storageBackend } from '../lib/config';
+import { ProjectRepository } from './ProjectRepository';
+import { createFirebaseProjectRepository } from './firebaseProjectRepository';
+import { createApiProjectRepository } from './apiProjectRepository';
+
+export type { ProjectRepository, Unsubscribe } from './ProjectRepository';
+export { createFirebaseProjectRepository } from './firebaseProjectRepository';
+export { createApiProjectRepository } from './apiProjectRepository';
+export { createInMemoryProjectRepository } from './inMemoryProjectRepository';
+
+export function createDefaultProjectRepository(): ProjectRepository {
+  return storageBackend === 'sqlite' ? createApiProjectRepository() : createFirebaseProjectRepository(database);
+}
@@ -0,0 +1,74 @@
+import { Project, ProjectTemplate, ProjectVersion } from '../types';
+import { getAuthToken } from '../lib/identity';
+
+// Client for the SQLite-backed REST routes mounted by server.ts
+const createRequest = (base: string) => async <T>(path: string, init?: RequestInit, notFoundAsNull = false): Promise<T> => {
+  const token = await getAuthToken();
+  const response = await fetch(`${base}${path}`, {
+    ...init,
+    headers: {
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+
+  if (notFoundAsNull && response.status === 404) {
+    return null as T;
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Request failed with status ${response.status}`);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+const request = createRequest('/api/projects');
+const templatesRequest = createRequest('/api/templates');
+
+export const fetchProjects = () =>
+  request<Project[]>('');
+
+export const fetchProject = (id: string) =>
+  request<Project | null>(`/${encodeURIComponent(id)}`, undefined, true);
+
+export const putProject = (project: Project) =>
+  request<Project>(`/${encodeURIComponent(project.id)}`, { method: 'PUT', body: JSON.stringify(project) });
+
+export const patchProject = (id: string, updates: Partial<Project>) =>
+  request<Project>(`/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(updates) });
+
+export const deleteProject = (id: string) =>
+  request<void>(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export const checkProjectPassword = (id: string, password: string) =>
+  request<{ valid: boolean }>(`/${encodeURIComponent(id)}/password`, { method: 'POST', body: JSON.stringify({ password }) });
+
+export const fetchVersions = (projectId: string) =>
+  request<ProjectVersion[]>(`/${encodeURIComponent(projectId)}/versions`);
+
+export const postVersion = (version: ProjectVersion) =>
+  request<ProjectVersion>(`/${encodeURIComponent(version.projectId)}/versions`, { method: 'POST', body: JSON.stringify(version) });
+
+export const patchVersion = (projectId: string, versionId: string, updates: Partial<ProjectVersion>) =>
+  request<ProjectVersion>(`/${encodeURIComponent(projectId)}/versions/${encodeURIComponent(versionId)}`, { method: 'PATCH', body: JSON.stringify(updates) });
+
+export const deleteVersion = (projectId: string, versionId: string) =>
+  request<void>(`/${encodeURIComponent(projectId)}/versions/${encodeURIComponent(versionId)}`, { method: 'DELETE' });
+
+export const fetchCollapsedNodes = (projectId: string, uid: string) =>
+  request<string[]>(`/${encodeURIComponent(projectId)}/collapsed/${encodeURIComponent(uid)}`);
+
+export const putCollapsedNodes = (projectId: string, uid: string, nodeIds: string[]) =>
+  request<void>(`/${encodeURIComponent(projectId)}/collapsed/${encodeURIComponent(uid)}`, { method: 'PUT', body: JSON.stringify(nodeIds) });
+
+
+export const fetchTemplates = () =>
+  templatesRequest<ProjectTemplate[]>('');
+
+export const putTemplate = (template: ProjectTemplate) =>
+  templatesRequest<ProjectTemplate>(`/${encodeURIComponent(template.id)}`, { method: 'PUT', body: JSON.stringify(template) });
+
+export const deleteTemplate = (id: string) =>
+  templatesRequest<void>(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
\ No newline at end of file
@@ -1,4 +1,45 @@
-export type ProjectType = 'text' | 'mindmap' | 'both';
+export type ProjectType = 'text' | 'mindmap' | 'both' | 'canvas';
+
+export type MindmapLayout = 'force' | 'radial' | 'horizontal' | 'vertical';
+
+export type CanvasColor = 'zinc' | 'red' | 'amber' | 'green' | 'blue' | 'violet' | 'pink';
+
+// Freeform canvas ('canvas' projects). Coordinates are canvas units, x/y is the top-left corner.
+export interface CanvasItem {
+  id: string;
+  kind: 'node' | 'note';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  color: CanvasColor;
+}
+
+export interface CanvasEdge {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface CanvasGroup {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  title: string;
+  color: CanvasColor;
+}
+
+export interface CanvasData {
+  items: CanvasItem[];
+  edges: CanvasEdge[];
+  groups: CanvasGroup[];
+}
+
+// Why an automatic snapshot was taken
+export type AutoVersionReason = 'interval' | 'session-end' | 'before-restore' | 'before-bulk-edit';
 
 export interface ProjectVersion {
   id: string;
@@ -6,6 +47,9 @@ export interface ProjectVersion {
   content: string;
   title: string;
   timestamp: number;
+  // Versions saved before automatic snapshots existed have no kind and count as manual
+  kind?: 'manual' | 'auto';
+  reason?: AutoVersionReason;
 }
 
 export interface Project {
@@ -15,10 +59,50 @@ export interface Project {
   content: string;
   lastModified: number;
   lastModifiedBy?: string;
+  // Last `content` save made without the collaboration server; when it is newer
+  // than the server's shared document, server.ts re-seeds that from `content`
+  offlineEditedAt?: number;
   senderId?: string;
   ownerId?: string;
   isPublicView?: boolean;
   isPublicEdit?: boolean;
   publicShowMindmap?: boolean;
   password?: string;
+  // Sent by the REST API instead of `password`, which it never returns
+  hasPassword?: boolean;
+  mindmapLayout?: MindmapLayout;
+  canvas?: CanvasData;
+  createdAt?: number;
+  // Dashboard organization. `folder` is a path like 'Работа/Клиенты', empty for the top level
+  folder?: string;
+  tags?: string[];
+  pinned?: boolean;
+  archived?: boolean;
+  // Set while the project is in the trash; null after a restore
+  deletedAt?: number | null;
+}
+
+// Starting point for new projects. `{{title}}`, `{{date}}` and the other
+// variables in the content are filled in when a project is created from it.
+export interface ProjectTemplate {
+  id: string;
+  title: string;
+  description?: string;
+  type: ProjectType;
+  content: string;
+  canvas?: CanvasData;
+  mindmapLayout?: MindmapLayout;
+  ownerId: string;
+  authorName?: string;
+  // Shared templates are offered to every user, personal ones only to the author
+  shared: boolean;
+  createdAt: number;
+}
+
+export interface RemoteCursor {
+  name: string;
+  color: string;
+  line: number;
+  pos: number;
+  timestamp?: number;
 }
@@ -0,0 +1,63 @@
+import { CanvasColor, CanvasData, CanvasGroup, CanvasItem } from '../types';
+
+export type Point = { x: number; y: number };
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export const CANVAS_COLORS: Record<CanvasColor, { fill: string; stroke: string }> = {
+  zinc: { fill: '#27272a', stroke: '#52525b' },
+  red: { fill: '#450a0a', stroke: '#ef4444' },
+  amber: { fill: '#451a03', stroke: '#f59e0b' },
+  green: { fill: '#052e16', stroke: '#22c55e' },
+  blue: { fill: '#172554', stroke: '#3b82f6' },
+  violet: { fill: '#2e1065', stroke: '#8b5cf6' },
+  pink: { fill: '#500724', stroke: '#ec4899' },
+};
+
+export const DEFAULT_SIZES: Record<CanvasItem['kind'] | 'group', { width: number; height: number }> = {
+  node: { width: 160, height: 56 },
+  note: { width: 200, height: 160 },
+  group: { width: 420, height: 300 },
+};
+
+export const emptyCanvas = (): CanvasData => ({ items: [], edges: [], groups: [] });
+
+export const createCanvasId = (prefix: string) => `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Realtime Database drops empty arrays and may hand arrays back as objects
+const asArray = <T,>(value: T[] | Record<string, T> | undefined | null): T[] =>
+  Array.isArray(value) ? value.filter(Boolean) : value ? Object.values(value) : [];
+
+export function normalizeCanvas(data?: Partial<CanvasData> | null): CanvasData {
+  const items = asArray(data?.items);
+  const ids = new Set(items.map(item => item.id));
+  return {
+    items,
+    // Edges to removed items would have nothing to attach to
+    edges: asArray(data?.edges).filter(edge => ids.has(edge.from) && ids.has(edge.to)),
+    groups: asArray(data?.groups),
+  };
+}
+
+export const rectCenter = (rect: Rect): Point => ({ x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 });
+
+export const containsPoint = (rect: Rect, p: Point) =>
+  p.x >= rect.x && p.x <= rect.x + rect.width && p.y >= rect.y && p.y <= rect.y + rect.height;
+
+// Items that belong to a group: those whose center lies inside it
+export const itemsInGroup = (items: CanvasItem[], group: CanvasGroup) =>
+  items.filter(item => containsPoint(group, rectCenter(item)));
+
+// Where the segment from the rect's center towards `target` leaves the rect,
+// so edges end at the border and arrowheads stay visible
+export function clipToRect(rect: Rect, target: Point): Point {
+  const center = rectCenter(rect);
+  const dx = target.x - center.x;
+  const dy = target.y - center.y;
+  if (dx === 0 && dy === 0) return center;
+
+  const scale = Math.min(
+    dx === 0 ? Infinity : (rect.width / 2) / Math.abs(dx),
+    dy === 0 ? Infinity : (rect.height / 2) / Math.abs(dy),
+  );
+  return { x: center.x + dx * Math.min(scale, 1), y: center.y + dy * Math.min(scale, 1) };
+}
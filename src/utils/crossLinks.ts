@@ -0,0 +1,68 @@
+import type { Nodes, Root } from 'mdast';
+import { HeadingNode, findSectionAt } from './markdownParser';
+
+// "See also" relation between two sections: the source section's own text
+// links to the target heading with `[[Heading]]` or `[label](#anchor)`
+export interface CrossLink {
+  id: string;
+  source: string;
+  target: string;
+}
+
+// `[[Heading]]`, `[[#Heading]]` or `[[Heading|label]]`; `[[Project#Heading]]` points elsewhere
+const WIKI_LINK = /\[\[#?([^[\]|#]+)(?:\|[^[\]]*)?\]\]/g;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+function collectHeadings(node: HeadingNode, out: HeadingNode[] = []) {
+  out.push(node);
+  node.children.forEach(child => collectHeadings(child, out));
+  return out;
+}
+
+// Targets referenced from one block of Markdown, as heading labels and anchors
+function collectReferences(node: Nodes, labels: string[], anchors: string[]) {
+  if (node.type === 'text') {
+    for (const match of node.value.matchAll(WIKI_LINK)) labels.push(match[1]);
+    return;
+  }
+  if (node.type === 'link' && node.url.startsWith('#')) {
+    anchors.push(decodeURIComponent(node.url.slice(1)));
+  }
+  if ('children' in node) {
+    node.children.forEach(child => collectReferences(child as Nodes, labels, anchors));
+  }
+}
+
+// `tree` is the parse of the Markdown the outline `root` was built from
+export function findCrossLinks(tree: Root, root: HeadingNode): CrossLink[] {
+  const headings = collectHeadings(root).filter(node => node.id !== 'root');
+  const byId = new Map(headings.map(node => [node.id, node]));
+  const byLabel = new Map<string, HeadingNode>();
+  headings.forEach(node => {
+    const label = normalize(node.text);
+    if (!byLabel.has(label)) byLabel.set(label, node);
+  });
+
+  const links = new Map<string, CrossLink>();
+  tree.children.forEach(block => {
+    if (block.type === 'heading' || !block.position) return;
+
+    const labels: string[] = [];
+    const anchors: string[] = [];
+    collectReferences(block, labels, anchors);
+
+    const source = findSectionAt(root, block.position.start.offset!);
+    const targets = [
+      ...labels.map(label => byLabel.get(normalize(label))),
+      ...anchors.map(anchor => byId.get(anchor)),
+    ];
+    targets.forEach(target => {
+      if (!target || target.id === source.id) return;
+      const id = `${source.id}~>${target.id}`;
+      links.set(id, { id, source: source.id, target: target.id });
+    });
+  });
+
+  return [...links.values()];
+}
@@ -0,0 +1,17 @@
+// Saves a generated file through a temporary object URL
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// File name from a user-facing title, keeping letters of any script
+export function toFileName(title: string, extension: string) {
+  const base = title.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_') || 'mindmap';
+  return `${base}.${extension}`;
+}
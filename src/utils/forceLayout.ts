@@ -0,0 +1,13 @@
+import * as d3 from 'd3';
+
+// Force settings shared by the mindmap and the Dashboard's project graph
+export function createForceSimulation<N extends d3.SimulationNodeDatum & { id: string }>(
+  nodes: N[],
+  links: d3.SimulationLinkDatum<N>[],
+) {
+  return d3.forceSimulation(nodes)
+    .force("link", d3.forceLink<N, d3.SimulationLinkDatum<N>>(links).id(d => d.id).distance(100))
+    .force("charge", d3.forceManyBody().strength(-300))
+    .force("center", d3.forceCenter(0, 0))
+    .force("collide", d3.forceCollide().radius(30));
+}
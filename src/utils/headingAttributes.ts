@@ -0,0 +1,54 @@
+// Trailing attribute block on headings, e.g. `## Title {#h-x7k2qa color=blue}`.
+// Shared by the TipTap Markdown round-trip and the outline parser.
+
+export type HeadingAttributes = Record<string, string>;
+
+const ATTRIBUTE_BLOCK = /\s*\{([^{}]*)\}\s*$/;
+const ATTRIBUTE_TOKEN = /^(?:#([\w-]+)|([\w-]+)=(?:"([^"]*)"|([^\s"]+)))$/;
+
+export function parseAttributeList(source: string): HeadingAttributes | null {
+  const attributes: HeadingAttributes = {};
+  const tokens = source.match(/[^\s"]+="[^"]*"|\S+/g) || [];
+  if (tokens.length === 0) return null;
+
+  for (const token of tokens) {
+    const match = token.match(ATTRIBUTE_TOKEN);
+    // Anything that isn't attribute syntax means the braces are part of the title
+    if (!match) return null;
+    if (match[1]) {
+      attributes.id = match[1];
+    } else {
+      attributes[match[2]] = match[3] ?? match[4];
+    }
+  }
+  return attributes;
+}
+
+export function splitHeadingAttributes(text: string): { text: string; attributes: HeadingAttributes } {
+  const match = text.match(ATTRIBUTE_BLOCK);
+  const attributes = match ? parseAttributeList(match[1]) : null;
+  if (!match || !attributes) {
+    return { text, attributes: {} };
+  }
+  return { text: text.slice(0, match.index), attributes };
+}
+
+// Attribute list without the braces; the id always comes first
+export function formatAttributeList(attributes: HeadingAttributes): string {
+  const { id, ...rest } = attributes;
+  return Object.entries({ id, ...rest })
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => key === 'id'
+      ? `#${value}`
+      : `${key}=${/^[^\s"{}]+$/.test(value) ? value : `"${value}"`}`)
+    .join(' ');
+}
+
+export function formatHeadingAttributes(attributes: HeadingAttributes): string {
+  const list = formatAttributeList(attributes);
+  return list ? ` {${list}}` : '';
+}
+
+export function createHeadingId(): string {
+  return `h-${Math.random().toString(36).slice(2, 8)}`;
+}
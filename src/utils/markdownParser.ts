@@ -1,46 +1,137 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import { toString } from 'mdast-util-to-string';
+import type { Heading, Root } from 'mdast';
+import { HeadingAttributes, splitHeadingAttributes } from './headingAttributes';
+
 export interface HeadingNode {
   id: string;
   text: string;
   level: number;
   line: number;
+  // Section range in the source Markdown: from the heading's first character up to
+  // the next heading of the same or a higher level (exclusive)
+  start: number;
+  end: number;
+  // Where the section's own text begins, right after the heading line(s)
+  bodyStart: number;
+  // Attribute block entries other than the id, e.g. mindmap styles
+  attributes: HeadingAttributes;
   children: HeadingNode[];
   collapsed?: boolean; // For UI state
 }
 
-export function parseMarkdownHeadings(markdown: string): HeadingNode {
-  const lines = markdown.split('\n');
+const processor = unified().use(remarkParse).use(remarkGfm);
+
+// Syntax tree of the whole document, for callers that need more than the
+// outline without parsing the same Markdown twice
+export const parseMarkdown = (markdown: string): Root => processor.parse(markdown);
+
+// GitHub-style anchor slug, so ids don't depend on line numbers
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-') || 'heading';
+}
+
+function createSlugger() {
+  // 'root' is reserved for the document node
+  const seen = new Map<string, number>([['root', 0]]);
+  return (base: string) => {
+    let slug = base;
+    if (seen.has(base)) {
+      let count = seen.get(base)!;
+      do {
+        count++;
+        slug = `${base}-${count}`;
+      } while (seen.has(slug));
+      seen.set(base, count);
+    }
+    seen.set(slug, 0);
+    return slug;
+  };
+}
+
+// Builds the outline from top-level ATX and setext headings. Headings inside
+// fenced code, blockquotes or lists are not sections and are ignored.
+// Ids come from the persistent `{#id}` attribute written by the editor and
+// fall back to a slug of the label for hand-written Markdown.
+export function parseMarkdownHeadings(markdown: string, tree: Root = parseMarkdown(markdown)): HeadingNode {
   const root: HeadingNode = {
     id: 'root',
     text: 'Root',
     level: 0,
     line: 0,
+    start: 0,
+    end: markdown.length,
+    bodyStart: 0,
+    attributes: {},
     children: []
   };
 
+  const uniqueId = createSlugger();
   const stack: HeadingNode[] = [root];
 
-  lines.forEach((line, index) => {
-    const match = line.match(/^(#{1,6})\s+(.+)$/);
-    if (match) {
-      const level = match[1].length;
-      const text = match[2];
-      const node: HeadingNode = {
-        id: `heading-${index}`,
-        text,
-        level,
-        line: index,
-        children: []
-      };
-
-      // Find the correct parent in the stack
-      while (stack.length > 1 && stack[stack.length - 1].level >= level) {
-        stack.pop();
-      }
-
-      stack[stack.length - 1].children.push(node);
-      stack.push(node);
+  tree.children.forEach((child) => {
+    if (child.type !== 'heading' || !child.position) return;
+
+    const heading = child as Heading;
+    const start = heading.position!.start.offset!;
+    const { text: label, attributes: { id, ...attributes } } = splitHeadingAttributes(toString(heading));
+    const text = label.trim();
+    const node: HeadingNode = {
+      id: uniqueId(id || slugify(text)),
+      text,
+      level: heading.depth,
+      line: heading.position!.start.line - 1,
+      start,
+      end: markdown.length,
+      bodyStart: heading.position!.end.offset!,
+      attributes,
+      children: []
+    };
+
+    // Find the correct parent in the stack, closing the sections we leave
+    while (stack.length > 1 && stack[stack.length - 1].level >= node.level) {
+      stack.pop()!.end = start;
     }
+
+    stack[stack.length - 1].children.push(node);
+    stack.push(node);
   });
 
   return root;
 }
+
+export function findHeadingNode(node: HeadingNode, id: string): HeadingNode | null {
+  if (node.id === id) return node;
+  for (const child of node.children) {
+    const found = findHeadingNode(child, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function findParentNode(node: HeadingNode, id: string): HeadingNode | null {
+  for (const child of node.children) {
+    if (child.id === id) return node;
+    const found = findParentNode(child, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Innermost section whose range contains the offset, the root for the intro
+export function findSectionAt(node: HeadingNode, offset: number): HeadingNode {
+  const child = node.children.find(c => c.start <= offset && offset < c.end);
+  return child ? findSectionAt(child, offset) : node;
+}
+
+// The section's own text: between its heading and its first subheading
+export function getSectionBody(markdown: string, node: HeadingNode): string {
+  const end = node.children.length > 0 ? node.children[0].start : node.end;
+  return markdown.slice(node.bodyStart, end).trim();
+}
@@ -0,0 +1,104 @@
+import { jsPDF } from 'jspdf';
+import { downloadBlob, toFileName } from './download';
+
+export type MindmapExportFormat = 'svg' | 'png' | 'pdf';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const BACKGROUND = '#09090b'; // zinc-950, as on screen
+const PADDING = 32;
+const PDF_MARGIN = 36; // half an inch, in points
+const PDF_RASTER_SCALE = 3;
+
+// Standalone copy of the rendered map: framed around its content rather than
+// the current zoom, with UI-only decorations removed and styles inlined
+function buildStandaloneSvg(svg: SVGSVGElement) {
+  const viewport = svg.querySelector<SVGGElement>('g.mindmap-viewport');
+  if (!viewport) throw new Error('Mindmap is not rendered');
+
+  const box = viewport.getBBox();
+  const x = box.x - PADDING;
+  const y = box.y - PADDING;
+  const width = Math.ceil(box.width + PADDING * 2);
+  const height = Math.ceil(box.height + PADDING * 2);
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  ['class', 'tabindex', 'role', 'aria-label', 'aria-activedescendant'].forEach(name => clone.removeAttribute(name));
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+  clone.querySelector('g.mindmap-viewport')?.removeAttribute('transform');
+  clone.querySelectorAll('.focus-ring').forEach(element => element.remove());
+
+  const style = document.createElementNS(SVG_NS, 'style');
+  style.textContent = `text { font-family: ${getComputedStyle(svg).fontFamily || 'sans-serif'}; }`;
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('x', String(x));
+  background.setAttribute('y', String(y));
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', BACKGROUND);
+
+  clone.insertBefore(background, clone.firstChild);
+  clone.insertBefore(style, clone.firstChild);
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+}
+
+async function rasterize(markup: string, width: number, height: number, scale: number) {
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to render mindmap image'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d')!;
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode PNG')), 'image/png');
+  });
+}
+
+export async function exportMindmap(svg: SVGSVGElement, format: MindmapExportFormat, title: string, scale = 2) {
+  const { markup, width, height } = buildStandaloneSvg(svg);
+
+  if (format === 'svg') {
+    downloadBlob(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }), toFileName(title, 'svg'));
+    return;
+  }
+
+  if (format === 'png') {
+    const canvas = await rasterize(markup, width, height, scale);
+    downloadBlob(await canvasToBlob(canvas), toFileName(title, 'png'));
+    return;
+  }
+
+  // A4 page fitted to the map. The page holds a high-resolution raster, since
+  // the standard PDF fonts have no Cyrillic glyphs for vector labels.
+  const canvas = await rasterize(markup, width, height, PDF_RASTER_SCALE);
+  const pdf = new jsPDF({ orientation: width > height ? 'landscape' : 'portrait', unit: 'pt', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const fit = Math.min((pageWidth - PDF_MARGIN * 2) / width, (pageHeight - PDF_MARGIN * 2) / height);
+  const imageWidth = width * fit;
+  const imageHeight = height * fit;
+
+  pdf.setProperties({ title });
+  pdf.addImage(canvas, 'PNG', (pageWidth - imageWidth) / 2, (pageHeight - imageHeight) / 2, imageWidth, imageHeight);
+  pdf.save(toFileName(title, 'pdf'));
+}
@@ -0,0 +1,113 @@
+import * as d3 from 'd3';
+import { HeadingAttributes } from './headingAttributes';
+import { HeadingNode } from './markdownParser';
+
+// Mindmap node styles live in the heading's attribute block, e.g.
+// `## Goals {#h-x7k2qa color=green icon=🎯 shape=diamond branch-color=blue}`
+
+export type NodeShape = 'circle' | 'square' | 'diamond' | 'triangle' | 'star';
+
+export interface NodeStyle {
+  fill: string;
+  // Color of the link from the parent, set when the node is inside a colored branch
+  linkColor?: string;
+  shape: NodeShape;
+  icon?: string;
+}
+
+export const NODE_COLORS: Record<string, string> = {
+  red: '#ef4444',
+  orange: '#f97316',
+  amber: '#f59e0b',
+  green: '#22c55e',
+  teal: '#14b8a6',
+  blue: '#3b82f6',
+  violet: '#8b5cf6',
+  pink: '#ec4899',
+};
+
+export const NODE_SHAPES: { id: NodeShape; label: string }[] = [
+  { id: 'circle', label: 'Круг' },
+  { id: 'square', label: 'Квадрат' },
+  { id: 'diamond', label: 'Ромб' },
+  { id: 'triangle', label: 'Треугольник' },
+  { id: 'star', label: 'Звезда' },
+];
+
+export const NODE_ICONS = ['⭐', '✅', '❗', '❓', '💡', '🎯', '🚀', '📌'];
+
+const SYMBOLS: Record<NodeShape, d3.SymbolType> = {
+  circle: d3.symbolCircle,
+  square: d3.symbolSquare,
+  diamond: d3.symbolDiamond,
+  triangle: d3.symbolTriangle,
+  star: d3.symbolStar,
+};
+
+// Named palette colors or hex values like `#0ea5e9`
+export function resolveColor(value?: string): string | undefined {
+  if (!value) return undefined;
+  if (NODE_COLORS[value]) return NODE_COLORS[value];
+  return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) ? value : undefined;
+}
+
+const levelFill = (level: number) => {
+  if (level === 0) return "#fff";
+  if (level === 1) return "#e4e4e7"; // zinc-200
+  if (level === 2) return "#a1a1aa"; // zinc-400
+  return "#52525b"; // zinc-600
+};
+
+const isShape = (value?: string): value is NodeShape => !!value && value in SYMBOLS;
+
+// Resolved style of every node. A `branch-color` applies to the node and all
+// of its descendants, down to the next node that sets its own.
+export function computeNodeStyles(root: HeadingNode): Map<string, NodeStyle> {
+  const styles = new Map<string, NodeStyle>();
+
+  const visit = (node: HeadingNode, inherited?: string) => {
+    const attributes: HeadingAttributes = node.attributes ?? {};
+    const branch = resolveColor(attributes['branch-color']) ?? inherited;
+    styles.set(node.id, {
+      fill: resolveColor(attributes.color) ?? branch ?? levelFill(node.level),
+      linkColor: branch,
+      shape: isShape(attributes.shape) ? attributes.shape : 'circle',
+      icon: attributes.icon || undefined,
+    });
+    node.children.forEach(child => visit(child, branch));
+  };
+
+  visit(root);
+  return styles;
+}
+
+// Symbol path with the same area as a circle of the given radius
+export const shapePath = (shape: NodeShape, radius: number) =>
+  d3.symbol(SYMBOLS[shape], Math.PI * radius * radius)()!;
+
+// Breaks a label into lines of at most `maxChars`, splitting on spaces and
+// hard-breaking longer words. Labels past `maxLines` end with an ellipsis.
+export function wrapLabel(text: string, maxChars = 20, maxLines = 4): string[] {
+  const chunks = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap(word => word.match(new RegExp(`.{1,${maxChars}}`, 'gu')) ?? []);
+
+  const lines: string[] = [];
+  let line = '';
+  chunks.forEach(chunk => {
+    if (line && line.length + 1 + chunk.length > maxChars) {
+      lines.push(line);
+      line = chunk;
+    } else {
+      line = line ? `${line} ${chunk}` : chunk;
+    }
+  });
+  if (line) lines.push(line);
+
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = lines[maxLines - 1].slice(0, maxChars - 1) + '…';
+  }
+  return lines;
+}
@@ -0,0 +1,224 @@
+import { HeadingNode, findHeadingNode, findParentNode, parseMarkdownHeadings } from './markdownParser';
+import { HeadingAttributes, formatHeadingAttributes, splitHeadingAttributes } from './headingAttributes';
+
+const ATX_PREFIX = /^ {0,3}#{1,6}(?=[ \t]|$)[ \t]*/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+
+const clampLevel = (level: number) => Math.min(6, Math.max(1, level));
+
+function collectHeadings(node: HeadingNode, out: HeadingNode[] = []) {
+  out.push(node);
+  node.children.forEach(child => collectHeadings(child, out));
+  return out;
+}
+
+// Rewrites one heading that starts at `offset` in `source` as an ATX heading of
+// the given level. Setext headings are converted, since `===`/`---` can only
+// express levels 1 and 2.
+function rewriteHeading(source: string, offset: number, level: number) {
+  const rest = source.slice(offset);
+  const hashes = '#'.repeat(level);
+
+  const atx = rest.match(ATX_PREFIX);
+  if (atx) {
+    return source.slice(0, offset) + `${hashes} ` + rest.slice(atx[0].length);
+  }
+
+  const lines = rest.split('\n');
+  const underline = lines.findIndex((line, i) => i > 0 && SETEXT_UNDERLINE.test(line));
+  if (underline === -1) return source;
+
+  const label = lines.slice(0, underline).map(line => line.trim()).join(' ');
+  return source.slice(0, offset) + [`${hashes} ${label}`, ...lines.slice(underline + 1)].join('\n');
+}
+
+// Shifts the level of a section's heading and every nested heading by the same
+// amount, so the branch keeps its shape under its new parent
+function relevelSection(markdown: string, node: HeadingNode, level: number) {
+  const delta = level - node.level;
+  let section = markdown.slice(node.start, node.end);
+  if (delta === 0) return section;
+
+  // Back to front, so earlier offsets stay valid while rewriting
+  collectHeadings(node)
+    .sort((a, b) => b.start - a.start)
+    .forEach(heading => {
+      section = rewriteHeading(section, heading.start - node.start, clampLevel(heading.level + delta));
+    });
+  return section;
+}
+
+function insertSection(markdown: string, offset: number, section: string) {
+  const before = markdown.slice(0, offset);
+  const after = markdown.slice(offset);
+  const body = section.endsWith('\n') ? section : section + '\n';
+  return before + (before === '' || before.endsWith('\n') ? '' : '\n') + body + after;
+}
+
+// Moves a heading with its whole section (body text and nested headings) to
+// `index` among the children of `parentId`, re-leveling it to fit there.
+// Returns null when the move is not possible, e.g. into its own subtree.
+export function moveSection(markdown: string, root: HeadingNode, id: string, parentId: string, index: number): string | null {
+  const node = findHeadingNode(root, id);
+  const parent = findHeadingNode(root, parentId);
+  if (!node || !parent || node.id === 'root') return null;
+  if (findHeadingNode(node, parentId)) return null;
+  if (parent.level >= 6) return null;
+
+  const siblings = parent.children.filter(child => child.id !== id);
+  const position = Math.min(Math.max(0, index), siblings.length);
+
+  // Match the neighbours' level, so documents whose top sections are H2 stay that way
+  const neighbour = siblings[Math.min(position, siblings.length - 1)];
+  const level = neighbour ? neighbour.level : parent.level + 1;
+
+  let offset = position < siblings.length ? siblings[position].start : parent.end;
+  const section = relevelSection(markdown, node, level);
+  const remaining = markdown.slice(0, node.start) + markdown.slice(node.end);
+  if (offset >= node.end) {
+    offset -= node.end - node.start;
+  }
+
+  const result = insertSection(remaining, offset, section);
+  // Dropped right where it already was
+  return result === markdown ? null : result;
+}
+
+// Rewrites a section's heading line (as ATX) from its current label and attributes
+function updateHeadingLine(
+  markdown: string,
+  node: HeadingNode,
+  update: (heading: { text: string; attributes: HeadingAttributes }) => { text: string; attributes: HeadingAttributes },
+) {
+  const section = rewriteHeading(markdown.slice(node.start, node.end), 0, node.level);
+  const lineEnd = section.indexOf('\n') === -1 ? section.length : section.indexOf('\n');
+  const { text, attributes } = update(splitHeadingAttributes(section.slice(0, lineEnd).replace(ATX_PREFIX, '')));
+  const heading = `${'#'.repeat(node.level)} ${text.trim()}${formatHeadingAttributes(attributes)}`;
+
+  return markdown.slice(0, node.start) + heading + section.slice(lineEnd) + markdown.slice(node.end);
+}
+
+// Replaces a heading's label, keeping its level and attribute block
+export function renameSection(markdown: string, root: HeadingNode, id: string, text: string): string | null {
+  const node = findHeadingNode(root, id);
+  if (!node || node.id === 'root' || !text.trim()) return null;
+
+  return updateHeadingLine(markdown, node, ({ attributes }) => ({ text, attributes }));
+}
+
+// Sets entries of a heading's attribute block, e.g. its mindmap style.
+// An empty value removes the entry.
+export function setSectionAttributes(markdown: string, root: HeadingNode, id: string, changes: HeadingAttributes): string | null {
+  const node = findHeadingNode(root, id);
+  if (!node || node.id === 'root') return null;
+
+  const result = updateHeadingLine(markdown, node, ({ text, attributes }) => ({ text, attributes: { ...attributes, ...changes } }));
+  return result === markdown ? null : result;
+}
+
+// Promotes (delta < 0) or demotes (delta > 0) a heading together with its subtree.
+// As in any outline, this changes which of the surrounding headings it belongs to.
+export function shiftSectionLevel(markdown: string, root: HeadingNode, id: string, delta: number): string | null {
+  const node = findHeadingNode(root, id);
+  if (!node || node.id === 'root') return null;
+
+  const levels = collectHeadings(node).map(heading => heading.level + delta);
+  if (Math.min(...levels) < 1 || Math.max(...levels) > 6) return null;
+
+  return markdown.slice(0, node.start) + relevelSection(markdown, node, node.level + delta) + markdown.slice(node.end);
+}
+
+// Adds an empty section of the same level right after the given one
+export function insertSiblingSection(markdown: string, root: HeadingNode, id: string, text: string): string | null {
+  const node = findHeadingNode(root, id);
+  if (!node || node.id === 'root' || !text.trim()) return null;
+
+  return insertSection(markdown, node.end, `${'#'.repeat(node.level)} ${text.trim()}\n`);
+}
+
+// Copies a section with its subtree right after the original. Ids are dropped
+// from the copy so the editor issues fresh ones; other attributes are kept.
+export function duplicateSection(markdown: string, root: HeadingNode, id: string): string | null {
+  const node = findHeadingNode(root, id);
+  if (!node || node.id === 'root') return null;
+
+  let section = markdown.slice(node.start, node.end);
+  collectHeadings(node)
+    .sort((a, b) => b.start - a.start)
+    .forEach(heading => {
+      const offset = heading.start - node.start;
+      const atx = rewriteHeading(section, offset, heading.level);
+      const rest = atx.slice(offset);
+      const lineEnd = rest.indexOf('\n') === -1 ? rest.length : rest.indexOf('\n');
+      const { text, attributes } = splitHeadingAttributes(rest.slice(0, lineEnd).replace(ATX_PREFIX, ''));
+      const { id: _id, ...kept } = attributes;
+      const line = `${'#'.repeat(heading.level)} ${text.trim()}${formatHeadingAttributes(kept)}`;
+      section = atx.slice(0, offset) + line + rest.slice(lineEnd);
+    });
+
+  return insertSection(markdown, node.end, section);
+}
+
+// Where a section missing from the document goes back: next to the nearest of
+// its old siblings that is still there, else first under its old parent. When
+// the parent is gone too, the same is tried one level up.
+function findRestorePosition(root: HeadingNode, versionRoot: HeadingNode, node: HeadingNode): { offset: number; level: number } {
+  let child = node;
+  let parent = findParentNode(versionRoot, node.id) ?? versionRoot;
+  for (;;) {
+    const currentParent = findHeadingNode(root, parent.id);
+    if (currentParent) {
+      const index = parent.children.indexOf(child);
+      const current = (sibling: HeadingNode) => findHeadingNode(currentParent, sibling.id);
+      const previous = parent.children.slice(0, index).reverse().map(current).find(Boolean);
+      if (previous) return { offset: previous.end, level: previous.level };
+      const next = parent.children.slice(index + 1).map(current).find(Boolean);
+      if (next) return { offset: next.start, level: next.level };
+      const first = currentParent.children[0];
+      return first ? { offset: first.start, level: first.level } : { offset: currentParent.end, level: clampLevel(currentParent.level + 1) };
+    }
+    child = parent;
+    parent = findParentNode(versionRoot, parent.id) ?? versionRoot;
+  }
+}
+
+function restoreSection(markdown: string, versionMarkdown: string, versionRoot: HeadingNode, node: HeadingNode): string {
+  const root = parseMarkdownHeadings(markdown);
+  const target = findHeadingNode(root, node.id);
+
+  // Subsections that now live outside the replaced section stay where they are
+  const elsewhere = collectHeadings(node).slice(1).filter(heading =>
+    findHeadingNode(root, heading.id) && !(target && findHeadingNode(target, heading.id)));
+  let source = versionMarkdown;
+  elsewhere
+    .filter(heading => !elsewhere.some(other => other !== heading && findHeadingNode(other, heading.id)))
+    .sort((a, b) => b.start - a.start)
+    .forEach(heading => { source = source.slice(0, heading.start) + source.slice(heading.end); });
+  const restored = source === versionMarkdown ? node : findHeadingNode(parseMarkdownHeadings(source), node.id);
+  if (!restored) return markdown;
+
+  if (target) {
+    const section = relevelSection(source, restored, target.level);
+    const rest = markdown.slice(target.end);
+    return markdown.slice(0, target.start) + (rest && !section.endsWith('\n') ? section + '\n' : section) + rest;
+  }
+  const { offset, level } = findRestorePosition(root, versionRoot, node);
+  return insertSection(markdown, offset, relevelSection(source, restored, level));
+}
+
+// Brings sections of an older version back with their subtrees. A section that
+// still exists gets its old text back, a deleted one is re-inserted where it
+// used to be. Picking a section and one of its subsections restores it once.
+export function restoreSections(markdown: string, versionMarkdown: string, ids: string[]): string | null {
+  const versionRoot = parseMarkdownHeadings(versionMarkdown);
+  const selected = ids
+    .map(id => findHeadingNode(versionRoot, id))
+    .filter((node): node is HeadingNode => !!node && node.id !== 'root');
+
+  let result = markdown;
+  selected
+    .filter(node => !selected.some(other => other !== node && findHeadingNode(other, node.id)))
+    .sort((a, b) => a.start - b.start)
+    .forEach(node => { result = restoreSection(result, versionMarkdown, versionRoot, node); });
+  return result === markdown ? null : result;
+}
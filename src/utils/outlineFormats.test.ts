@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OutlineNode, outlineFromMarkdown, outlineToMarkdown } from './outlineFormats';
+
+const topic = (text: string, note = '', children: OutlineNode[] = []): OutlineNode => ({ text, note, children });
+
+const roundTrip = (root: OutlineNode) => {
+  const { title, content } = outlineToMarkdown(root);
+  return outlineFromMarkdown(content, title);
+};
+
+test('keeps the outline of plain topics', () => {
+  const root = topic('Map', 'Intro', [
+    topic('First', 'Some text', [topic('Nested')]),
+    topic('Second'),
+  ]);
+  assert.deepEqual(roundTrip(root), root);
+});
+
+test('keeps attribute-like braces at the end of a topic as text', () => {
+  const root = topic('Map', '', [topic('x {#evil color=red}'), topic('y {#evil}')]);
+  assert.deepEqual(roundTrip(root), root);
+});
+
+test('keeps block markers in topics and notes from changing the tree', () => {
+  const root = topic('Map', '# not a heading', [
+    topic('# Title', '# x\n> quote\n- item\n---\n==='),
+    topic('- Item', 'text\n  # indented'),
+  ]);
+  assert.deepEqual(roundTrip(root), root);
+});
+
+test('escapes topics kept as list items below H6', () => {
+  let section = topic('# Deep', '# x');
+  for (let level = 6; level > 0; level--) {
+    section = topic(`Level ${level}`, '', [section]);
+  }
+
+  const { content } = outlineToMarkdown(topic('Map', '', [section]));
+  assert.match(content, /^- \\# Deep$/m);
+  assert.match(content, /^ {2}\\# x$/m);
+  assert.equal(outlineFromMarkdown(content, 'Map').children.length, 1);
+});
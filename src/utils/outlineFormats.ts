@@ -0,0 +1,303 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { HeadingNode, getSectionBody, parseMarkdownHeadings } from './markdownParser';
+import { createHeadingId, splitHeadingAttributes } from './headingAttributes';
+
+// Format-neutral outline used by all converters: one topic per heading, with
+// the section's own text as the topic note
+export interface OutlineNode {
+  text: string;
+  note: string;
+  children: OutlineNode[];
+}
+
+export type OutlineFormat = 'freemind' | 'opml' | 'xmind';
+
+export const OUTLINE_FORMATS: Record<OutlineFormat, { label: string; extension: string; mimeType: string }> = {
+  freemind: { label: 'FreeMind (.mm)', extension: 'mm', mimeType: 'application/x-freemind' },
+  opml: { label: 'OPML', extension: 'opml', mimeType: 'text/x-opml' },
+  xmind: { label: 'XMind', extension: 'xmind', mimeType: 'application/vnd.xmind.workbook' },
+};
+
+export const OUTLINE_IMPORT_ACCEPT = '.mm,.opml,.xmind';
+
+const MAX_HEADING_LEVEL = 6;
+
+const singleLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Line starts Markdown would read as a heading, quote, list item or setext
+// underline, which would change the outline if they came from imported text
+const BLOCK_MARKER = /^(\s*)([#>=-])/;
+const ESCAPED_BLOCK_MARKER = /^(\s*)\\([#>=-])/;
+
+const escapeLine = (line: string) => line.replace(BLOCK_MARKER, '$1\\$2');
+const unescapeLine = (line: string) => line.replace(ESCAPED_BLOCK_MARKER, '$1$2');
+const escapeNote = (note: string) => note.trim().split('\n').map(escapeLine);
+
+// A trailing `{…}` in the label would be read as the heading's attribute block;
+// an id block after it keeps it part of the label
+function headingLabel(text: string) {
+  const label = escapeLine(singleLine(text)) || '…';
+  return splitHeadingAttributes(label).text === label ? label : `${label} {#${createHeadingId()}}`;
+}
+
+// --- Markdown <-> outline ---
+
+export function outlineFromMarkdown(markdown: string, title: string): OutlineNode {
+  const toOutline = (node: HeadingNode): OutlineNode => ({
+    text: node.text,
+    note: getSectionBody(markdown, node).split('\n').map(unescapeLine).join('\n'),
+    children: node.children.map(toOutline),
+  });
+
+  const root = toOutline(parseMarkdownHeadings(markdown));
+  root.text = title || 'Untitled';
+  return root;
+}
+
+// The root topic becomes the project title and its note the intro text.
+// Topics below H6 can't be headings and are kept as nested list items.
+export function outlineToMarkdown(root: OutlineNode): { title: string; content: string } {
+  const blocks: string[] = [];
+  if (root.note.trim()) blocks.push(escapeNote(root.note).join('\n'));
+
+  const renderList = (node: OutlineNode, indent: string, lines: string[]) => {
+    lines.push(`${indent}- ${escapeLine(singleLine(node.text))}`);
+    if (node.note.trim()) {
+      escapeNote(node.note).forEach(line => lines.push(`${indent}  ${line}`));
+    }
+    node.children.forEach(child => renderList(child, indent + '  ', lines));
+  };
+
+  const renderSection = (node: OutlineNode, level: number) => {
+    blocks.push(`${'#'.repeat(level)} ${headingLabel(node.text)}`);
+    if (node.note.trim()) blocks.push(escapeNote(node.note).join('\n'));
+
+    if (level < MAX_HEADING_LEVEL) {
+      node.children.forEach(child => renderSection(child, level + 1));
+    } else if (node.children.length > 0) {
+      const lines: string[] = [];
+      node.children.forEach(child => renderList(child, '', lines));
+      blocks.push(lines.join('\n'));
+    }
+  };
+
+  root.children.forEach(child => renderSection(child, 1));
+  return { title: singleLine(root.text), content: blocks.join('\n\n') + '\n' };
+}
+
+// --- XML helpers ---
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/\n/g, '&#10;');
+
+const childElements = (element: Element, name: string) =>
+  Array.from(element.children).filter(child => child.localName === name);
+
+function parseXml(source: string) {
+  const document = new DOMParser().parseFromString(source, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XML');
+  }
+  return document;
+}
+
+// Plain text of an HTML note: blank line between paragraphs, newline per <br>
+function htmlToText(element: Element) {
+  let text = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent!.replace(/\s+/g, ' ');
+      return;
+    }
+    const name = (node as Element).localName;
+    if (name === 'br') {
+      text += '\n';
+      return;
+    }
+    node.childNodes.forEach(walk);
+    if (/^(p|div|li|h[1-6])$/.test(name)) text += '\n\n';
+  };
+  walk(element);
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const textToHtml = (text: string) => text
+  .split(/\n\s*\n/)
+  .map(paragraph => `<p>${paragraph.split('\n').map(escapeXml).join('<br/>')}</p>`)
+  .join('');
+
+// --- FreeMind ---
+
+function toFreeMind(root: OutlineNode) {
+  const render = (node: OutlineNode, indent: string): string => {
+    const note = node.note
+      ? `${indent}  <richcontent TYPE="NOTE"><html><head></head><body>${textToHtml(node.note)}</body></html></richcontent>\n`
+      : '';
+    const children = node.children.map(child => render(child, indent + '  ')).join('');
+    if (!note && !children) {
+      return `${indent}<node TEXT="${escapeXml(node.text)}"/>\n`;
+    }
+    return `${indent}<node TEXT="${escapeXml(node.text)}">\n${note}${children}${indent}</node>\n`;
+  };
+  return `<map version="1.0.1">\n${render(root, '')}</map>\n`;
+}
+
+function fromFreeMind(source: string): OutlineNode {
+  const map = parseXml(source).documentElement;
+  const rootElement = childElements(map, 'node')[0];
+  if (map.localName !== 'map' || !rootElement) throw new Error('Not a FreeMind map');
+
+  const read = (element: Element): OutlineNode => {
+    const rich = childElements(element, 'richcontent');
+    const richText = rich.find(r => r.getAttribute('TYPE') === 'NODE');
+    const richNote = rich.find(r => r.getAttribute('TYPE') === 'NOTE');
+    return {
+      text: element.getAttribute('TEXT') ?? (richText ? htmlToText(richText) : ''),
+      note: richNote ? htmlToText(richNote) : '',
+      children: childElements(element, 'node').map(read),
+    };
+  };
+  return read(rootElement);
+}
+
+// --- OPML ---
+
+// The root topic is the document title; its children are the top-level outlines
+function toOpml(root: OutlineNode) {
+  const render = (node: OutlineNode, indent: string): string => {
+    const note = node.note ? ` _note="${escapeXml(node.note)}"` : '';
+    if (node.children.length === 0) {
+      return `${indent}<outline text="${escapeXml(node.text)}"${note}/>\n`;
+    }
+    return `${indent}<outline text="${escapeXml(node.text)}"${note}>\n${node.children.map(child => render(child, indent + '  ')).join('')}${indent}</outline>\n`;
+  };
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<opml version="2.0">\n  <head>\n    <title>${escapeXml(root.text)}</title>\n  </head>\n  <body>\n${root.children.map(child => render(child, '    ')).join('')}  </body>\n</opml>\n`;
+}
+
+function fromOpml(source: string, fallbackTitle: string): OutlineNode {
+  const opml = parseXml(source).documentElement;
+  const body = childElements(opml, 'body')[0];
+  if (opml.localName !== 'opml' || !body) throw new Error('Not an OPML document');
+
+  const read = (element: Element): OutlineNode => ({
+    text: element.getAttribute('text') ?? element.getAttribute('title') ?? '',
+    note: element.getAttribute('_note') ?? '',
+    children: childElements(element, 'outline').map(read),
+  });
+
+  const head = childElements(opml, 'head')[0];
+  const title = head && childElements(head, 'title')[0]?.textContent?.trim();
+  const outlines = childElements(body, 'outline').map(read);
+
+  // A single untitled top outline is the root topic itself
+  if (!title && outlines.length === 1) return outlines[0];
+  return { text: title || fallbackTitle, note: '', children: outlines };
+}
+
+// --- XMind ---
+
+interface XMindTopic {
+  id: string;
+  class?: string;
+  title?: string;
+  notes?: { plain?: { content?: string } };
+  children?: { attached?: XMindTopic[] };
+}
+
+// XMind Zen / 2020+ workbook: a zip with content.json
+function toXMind(root: OutlineNode) {
+  const render = (node: OutlineNode): XMindTopic => ({
+    id: crypto.randomUUID(),
+    class: 'topic',
+    title: node.text,
+    ...(node.note ? { notes: { plain: { content: node.note } } } : {}),
+    ...(node.children.length > 0 ? { children: { attached: node.children.map(render) } } : {}),
+  });
+
+  const content = [{ id: crypto.randomUUID(), class: 'sheet', title: root.text, rootTopic: render(root) }];
+  const manifest = { 'file-entries': { 'content.json': {}, 'metadata.json': {} } };
+
+  return zipSync({
+    'content.json': strToU8(JSON.stringify(content)),
+    'metadata.json': strToU8('{}'),
+    'manifest.json': strToU8(JSON.stringify(manifest)),
+  });
+}
+
+// Reads both the JSON workbook and the older XMind 8 content.xml
+function fromXMind(data: Uint8Array): OutlineNode {
+  const files = unzipSync(data);
+
+  if (files['content.json']) {
+    const sheets = JSON.parse(strFromU8(files['content.json'])) as { rootTopic: XMindTopic }[];
+    const read = (topic: XMindTopic): OutlineNode => ({
+      text: topic.title ?? '',
+      note: topic.notes?.plain?.content ?? '',
+      children: (topic.children?.attached ?? []).map(read),
+    });
+    if (!sheets[0]?.rootTopic) throw new Error('XMind workbook has no sheets');
+    return read(sheets[0].rootTopic);
+  }
+
+  if (files['content.xml']) {
+    const content = parseXml(strFromU8(files['content.xml'])).documentElement;
+    const sheet = childElements(content, 'sheet')[0];
+    const rootTopic = sheet && childElements(sheet, 'topic')[0];
+    if (!rootTopic) throw new Error('XMind workbook has no sheets');
+
+    const read = (topic: Element): OutlineNode => {
+      const notes = childElements(topic, 'notes')[0];
+      const plain = notes && childElements(notes, 'plain')[0];
+      const attached = childElements(topic, 'children')
+        .flatMap(children => childElements(children, 'topics'))
+        .filter(topics => topics.getAttribute('type') === 'attached')
+        .flatMap(topics => childElements(topics, 'topic'));
+      return {
+        text: childElements(topic, 'title')[0]?.textContent ?? '',
+        note: plain?.textContent?.trim() ?? '',
+        children: attached.map(read),
+      };
+    };
+    return read(rootTopic);
+  }
+
+  throw new Error('Not an XMind workbook');
+}
+
+// --- Entry points ---
+
+export function exportOutline(format: OutlineFormat, title: string, markdown: string): Blob {
+  const root = outlineFromMarkdown(markdown, title);
+  const { mimeType } = OUTLINE_FORMATS[format];
+
+  if (format === 'xmind') return new Blob([toXMind(root)], { type: mimeType });
+  return new Blob([format === 'freemind' ? toFreeMind(root) : toOpml(root)], { type: `${mimeType};charset=utf-8` });
+}
+
+export async function importOutlineFile(file: File): Promise<{ title: string; content: string }> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const fallbackTitle = file.name.replace(/\.[^.]+$/, '');
+
+  let root: OutlineNode;
+  if (extension === 'mm') {
+    root = fromFreeMind(await file.text());
+  } else if (extension === 'opml') {
+    root = fromOpml(await file.text(), fallbackTitle);
+  } else if (extension === 'xmind') {
+    root = fromXMind(new Uint8Array(await file.arrayBuffer()));
+  } else {
+    throw new Error(`Unsupported file type: ${file.name}`);
+  }
+
+  const { title, content } = outlineToMarkdown(root);
+  return { title: title || fallbackTitle, content };
+}
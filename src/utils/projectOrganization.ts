@@ -0,0 +1,136 @@
+import { Project, ProjectType } from '../types';
+
+export type ProjectSort = 'modified' | 'created' | 'title';
+
+// What the Dashboard lists: everything, pinned projects, the archive, the trash or one folder
+export type ProjectScope =
+  | { kind: 'all' }
+  | { kind: 'pinned' }
+  | { kind: 'archive' }
+  | { kind: 'trash' }
+  | { kind: 'folder'; path: string };
+
+export interface ProjectFilter {
+  scope: ProjectScope;
+  // A project must carry every selected tag and be of one of the selected types
+  tags: string[];
+  types: ProjectType[];
+}
+
+export interface FolderNode {
+  path: string;
+  name: string;
+  // Projects in this folder and its subfolders, archive and trash excluded
+  count: number;
+  children: FolderNode[];
+}
+
+export const FOLDER_SEPARATOR = '/';
+
+export function normalizeFolderPath(path: string | undefined): string {
+  return (path ?? '')
+    .split(FOLDER_SEPARATOR)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join(FOLDER_SEPARATOR);
+}
+
+export const joinFolderPath = (parent: string, name: string) => normalizeFolderPath(`${parent}${FOLDER_SEPARATOR}${name}`);
+
+const isWithinFolder = (path: string, folder: string) =>
+  path === folder || path.startsWith(folder + FOLDER_SEPARATOR);
+
+// Folders exist while they hold projects; `extraPaths` keeps freshly created,
+// still empty ones in the tree
+export function buildFolderTree(projects: Project[], extraPaths: string[] = []): FolderNode[] {
+  const root: FolderNode = { path: '', name: '', count: 0, children: [] };
+
+  const ensure = (path: string) => {
+    let node = root;
+    path.split(FOLDER_SEPARATOR).forEach((name, i, parts) => {
+      const childPath = parts.slice(0, i + 1).join(FOLDER_SEPARATOR);
+      let child = node.children.find(c => c.path === childPath);
+      if (!child) {
+        child = { path: childPath, name, count: 0, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+    return node;
+  };
+
+  extraPaths.map(normalizeFolderPath).filter(Boolean).forEach(ensure);
+  projects.forEach(project => {
+    const path = normalizeFolderPath(project.folder);
+    if (!path || project.archived || project.deletedAt) return;
+    ensure(path);
+    path.split(FOLDER_SEPARATOR).forEach((_, i, parts) => {
+      ensure(parts.slice(0, i + 1).join(FOLDER_SEPARATOR)).count++;
+    });
+  });
+
+  const sort = (nodes: FolderNode[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name, 'ru'));
+    nodes.forEach(node => sort(node.children));
+    return nodes;
+  };
+  return sort(root.children);
+}
+
+// Comma-separated input, `#` prefixes allowed
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map(tag => tag.trim().replace(/^#+/, '').trim())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export function collectTags(projects: Project[]): string[] {
+  const tags = new Set<string>();
+  projects.forEach(project => {
+    if (!project.deletedAt) project.tags?.forEach(tag => tags.add(tag));
+  });
+  return [...tags].sort((a, b) => a.localeCompare(b, 'ru'));
+}
+
+function inScope(project: Project, scope: ProjectScope): boolean {
+  if (scope.kind === 'trash') return !!project.deletedAt;
+  if (project.deletedAt) return false;
+  if (scope.kind === 'archive') return !!project.archived;
+  if (project.archived) return false;
+  if (scope.kind === 'pinned') return !!project.pinned;
+  // Subfolders included, like the counts in the folder tree
+  if (scope.kind === 'folder') return isWithinFolder(normalizeFolderPath(project.folder), scope.path);
+  return true;
+}
+
+export function filterProjects(projects: Project[], { scope, tags, types }: ProjectFilter): Project[] {
+  return projects.filter(project =>
+    inScope(project, scope)
+    && (types.length === 0 || types.includes(project.type))
+    && tags.every(tag => project.tags?.includes(tag)));
+}
+
+// Pinned projects first, then by the chosen order
+export function sortProjects(projects: Project[], sort: ProjectSort): Project[] {
+  const compare = (a: Project, b: Project) => {
+    if (sort === 'title') return (a.title || '').localeCompare(b.title || '', 'ru');
+    if (sort === 'created') return (b.createdAt ?? b.lastModified) - (a.createdAt ?? a.lastModified);
+    return b.lastModified - a.lastModified;
+  };
+  return [...projects].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || compare(a, b));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When a trashed project gets purged, null if the trash is kept forever
+export const trashExpiresAt = (project: Project, retentionDays: number) =>
+  project.deletedAt && retentionDays > 0 ? project.deletedAt + retentionDays * DAY_MS : null;
+
+export function findExpiredTrash(projects: Project[], retentionDays: number, now = Date.now()): Project[] {
+  return projects.filter(project => {
+    const expiresAt = trashExpiresAt(project, retentionDays);
+    return expiresAt !== null && expiresAt <= now;
+  });
+}
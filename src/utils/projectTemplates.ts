@@ -0,0 +1,117 @@
+import { CanvasData, Project, ProjectTemplate } from '../types';
+
+export interface TemplateContext {
+  title: string;
+  author?: string;
+  now?: Date;
+}
+
+// Shown next to the "save as template" form
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'title', description: 'название проекта' },
+  { name: 'date', description: 'дата создания' },
+  { name: 'time', description: 'время создания' },
+  { name: 'author', description: 'автор' },
+];
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Unknown variables stay as they are
+export function fillTemplateVariables(text: string, { title, author = '', now = new Date() }: TemplateContext): string {
+  const values: Record<string, string> = {
+    title,
+    date: now.toLocaleDateString('ru-RU'),
+    time: now.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' }),
+    author,
+  };
+  return text.replace(VARIABLE, (token, name: string) => values[name.toLowerCase()] ?? token);
+}
+
+function fillCanvas(canvas: CanvasData, context: TemplateContext): CanvasData {
+  return {
+    items: (canvas.items ?? []).map(item => ({ ...item, text: fillTemplateVariables(item.text, context) })),
+    edges: canvas.edges ?? [],
+    groups: (canvas.groups ?? []).map(group => ({ ...group, title: fillTemplateVariables(group.title, context) })),
+  };
+}
+
+// Fields of a new project made from the template
+export function applyTemplate(template: ProjectTemplate, context: TemplateContext): Pick<Project, 'type' | 'content' | 'canvas' | 'mindmapLayout'> {
+  return {
+    type: template.type,
+    content: fillTemplateVariables(template.content, context),
+    ...(template.canvas ? { canvas: fillCanvas(template.canvas, context) } : {}),
+    ...(template.mindmapLayout ? { mindmapLayout: template.mindmapLayout } : {}),
+  };
+}
+
+export const isBuiltinTemplate = (template: ProjectTemplate) => template.ownerId === '';
+
+const builtin = (id: string, title: string, description: string, content: string): ProjectTemplate => ({
+  id: `builtin-${id}`,
+  title,
+  description,
+  type: 'both',
+  content,
+  ownerId: '',
+  shared: true,
+  createdAt: 0,
+});
+
+// Always offered, never stored
+export const BUILTIN_TEMPLATES: ProjectTemplate[] = [
+  builtin('meeting', 'Заметки встречи', 'Участники, повестка, решения и задачи', `# {{title}}
+
+{{date}}, {{time}}
+
+## Участники
+
+- {{author}}
+
+## Повестка
+
+1.
+
+## Обсуждение
+
+## Решения
+
+## Задачи
+
+-`),
+  builtin('retro', 'Ретроспектива спринта', 'Что прошло хорошо, что мешало, что меняем', `# {{title}}
+
+Ретроспектива от {{date}}
+
+## Что прошло хорошо
+
+-
+
+## Что мешало
+
+-
+
+## Идеи
+
+-
+
+## Что меняем в следующем спринте
+
+-`),
+  builtin('design-doc', 'Дизайн-документ', 'Контекст, цели, решение и альтернативы', `# {{title}}
+
+Автор: {{author}}, {{date}}
+
+## Контекст
+
+## Цели
+
+## Не цели
+
+## Решение
+
+## Альтернативы
+
+## Открытые вопросы
+`),
+];
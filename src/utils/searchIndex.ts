@@ -0,0 +1,276 @@
+import { Project } from '../types';
+import { HeadingNode, getSectionBody, parseMarkdownHeadings } from './markdownParser';
+
+export type HighlightRange = [start: number, end: number];
+
+export interface SearchHit {
+  // Heading id, or 'root' for the text before the first heading
+  sectionId: string;
+  heading: string | null;
+  snippet: string;
+  highlights: HighlightRange[];
+}
+
+export interface SearchResult {
+  project: Project;
+  score: number;
+  titleHighlights: HighlightRange[];
+  hits: SearchHit[];
+}
+
+export interface SearchIndex {
+  // Brings the index in line with `projects`, re-indexing only what changed, in
+  // short slices between frames. `onProgress` fires after every slice; the
+  // returned function cancels the remaining work.
+  sync: (projects: Project[], onProgress: (pending: number) => void) => () => void;
+  search: (query: string) => SearchResult[];
+}
+
+interface IndexedSection {
+  projectId: string;
+  id: string;
+  heading: string | null;
+  text: string;
+  // Weighted term frequencies: title and heading words count more than body words
+  terms: Map<string, number>;
+}
+
+interface IndexedProject {
+  project: Project;
+  sections: IndexedSection[];
+}
+
+const TITLE_WEIGHT = 5;
+const HEADING_WEIGHT = 3;
+const SLICE_MS = 8;
+const MAX_RESULTS = 50;
+const MAX_HITS = 3;
+const SNIPPET_LENGTH = 160;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD) ?? [];
+}
+
+// Markdown without the syntax, for snippets
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\\?\[\\?\[([^\]|\n]*\|)?([^\]\n]+?)\\?\]\\?\]/g, '$2')
+    .replace(/^\s{0,3}(#{1,6}\s|>\s?|[-*+]\s(\[[ xX]\]\s)?|\d+[.)]\s)/gm, '')
+    .replace(/[*_~`|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function countTerms(terms: Map<string, number>, text: string, weight: number) {
+  tokenize(text).forEach(term => terms.set(term, (terms.get(term) ?? 0) + weight));
+}
+
+function indexProject(project: Project): IndexedProject {
+  const rootTerms = new Map<string, number>();
+  countTerms(rootTerms, project.title, TITLE_WEIGHT);
+
+  if (project.type === 'canvas') {
+    const canvas = project.canvas;
+    const text = [
+      ...(canvas?.groups ?? []).map(group => group.title),
+      ...(canvas?.items ?? []).map(item => item.text),
+    ].filter(Boolean).join(' · ');
+    countTerms(rootTerms, text, 1);
+    return { project, sections: [{ projectId: project.id, id: 'root', heading: null, text, terms: rootTerms }] };
+  }
+
+  const markdown = project.content ?? '';
+  const root = parseMarkdownHeadings(markdown);
+  const rootText = plainText(getSectionBody(markdown, root));
+  countTerms(rootTerms, rootText, 1);
+
+  const sections: IndexedSection[] = [{ projectId: project.id, id: 'root', heading: null, text: rootText, terms: rootTerms }];
+  // Parent headings count too, so "борщ подача" finds "Подача" under "Борщ"
+  const walk = (node: HeadingNode, ancestors: string[]) => {
+    node.children.forEach(child => {
+      const text = plainText(getSectionBody(markdown, child));
+      const terms = new Map<string, number>();
+      countTerms(terms, ancestors.join(' '), 1);
+      countTerms(terms, child.text, HEADING_WEIGHT);
+      countTerms(terms, text, 1);
+      sections.push({ projectId: project.id, id: child.id, heading: child.text, text, terms });
+      walk(child, [...ancestors, child.text]);
+    });
+  };
+  walk(root, []);
+  return { project, sections };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Words starting with one of the query terms
+function highlightRanges(text: string, queryTerms: string[]): HighlightRange[] {
+  if (queryTerms.length === 0) return [];
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${queryTerms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+  return [...text.matchAll(pattern)].map(match => [match.index!, match.index! + match[0].length]);
+}
+
+// A window of the section text around the first match
+function makeSnippet(text: string, queryTerms: string[]): Pick<SearchHit, 'snippet' | 'highlights'> {
+  const first = highlightRanges(text, queryTerms)[0];
+  let start = first ? Math.max(0, first[0] - 40) : 0;
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first[0]) start = space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + text.slice(start, end) + (end < text.length ? '…' : '');
+  return { snippet, highlights: highlightRanges(snippet, queryTerms) };
+}
+
+// Inverted index over project titles and sections. Every query word must occur
+// in a section (the last one may be a prefix of a word, for search-as-you-type);
+// sections are ranked by TF-IDF and projects by their best sections.
+export function createSearchIndex(): SearchIndex {
+  const projects = new Map<string, IndexedProject>();
+  const postings = new Map<string, Set<IndexedSection>>();
+  let sectionCount = 0;
+
+  const remove = (id: string) => {
+    const indexed = projects.get(id);
+    if (!indexed) return;
+    indexed.sections.forEach(section => {
+      section.terms.forEach((_, term) => {
+        const sections = postings.get(term);
+        sections?.delete(section);
+        if (sections?.size === 0) postings.delete(term);
+      });
+    });
+    sectionCount -= indexed.sections.length;
+    projects.delete(id);
+  };
+
+  const add = (project: Project) => {
+    remove(project.id);
+    const indexed = indexProject(project);
+    indexed.sections.forEach(section => {
+      section.terms.forEach((_, term) => {
+        let sections = postings.get(term);
+        if (!sections) postings.set(term, sections = new Set());
+        sections.add(section);
+      });
+    });
+    sectionCount += indexed.sections.length;
+    projects.set(project.id, indexed);
+  };
+
+  const isStale = (project: Project) => {
+    const indexed = projects.get(project.id)?.project;
+    return !indexed
+      || indexed.title !== project.title
+      || indexed.type !== project.type
+      || indexed.content !== project.content
+      || indexed.canvas !== project.canvas && JSON.stringify(indexed.canvas) !== JSON.stringify(project.canvas);
+  };
+
+  const sync: SearchIndex['sync'] = (next, onProgress) => {
+    const ids = new Set(next.map(project => project.id));
+    [...projects.keys()].filter(id => !ids.has(id)).forEach(remove);
+
+    const queue = next.filter(project => {
+      if (isStale(project)) return true;
+      // Unchanged content, but keep the latest snapshot for display
+      projects.get(project.id)!.project = project;
+      return false;
+    });
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const work = () => {
+      const deadline = performance.now() + SLICE_MS;
+      while (queue.length > 0 && performance.now() < deadline) {
+        add(queue.shift()!);
+      }
+      onProgress(queue.length);
+      timer = queue.length > 0 ? setTimeout(work, 0) : null;
+    };
+    work();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+    };
+  };
+
+  // Weighted matches of one query word in every section containing it
+  const scoreTerm = (word: string, prefix: boolean) => {
+    const scores = new Map<IndexedSection, number>();
+    const addTerm = (term: string, boost: number) => {
+      const sections = postings.get(term);
+      if (!sections) return;
+      const idf = Math.log(1 + sectionCount / sections.size);
+      sections.forEach(section => {
+        const tf = section.terms.get(term)!;
+        scores.set(section, (scores.get(section) ?? 0) + boost * (1 + Math.log(tf)) * idf);
+      });
+    };
+
+    addTerm(word, 1);
+    if (prefix) {
+      postings.forEach((_, term) => {
+        if (term !== word && term.startsWith(word)) addTerm(term, 0.5);
+      });
+    }
+    return scores;
+  };
+
+  const search = (query: string): SearchResult[] => {
+    const words = [...new Set(tokenize(query))];
+    if (words.length === 0) return [];
+
+    let matches: Map<IndexedSection, number> | null = null;
+    words.forEach((word, i) => {
+      const scores = scoreTerm(word, i === words.length - 1);
+      if (!matches) {
+        matches = scores;
+        return;
+      }
+      const merged = new Map<IndexedSection, number>();
+      matches.forEach((score, section) => {
+        if (scores.has(section)) merged.set(section, score + scores.get(section)!);
+      });
+      matches = merged;
+    });
+
+    const byProject = new Map<string, { section: IndexedSection; score: number }[]>();
+    matches!.forEach((score, section) => {
+      const list = byProject.get(section.projectId) ?? [];
+      list.push({ section, score });
+      byProject.set(section.projectId, list);
+    });
+
+    return [...byProject.entries()]
+      .map(([projectId, list]) => {
+        list.sort((a, b) => b.score - a.score);
+        const project = projects.get(projectId)!.project;
+        return {
+          project,
+          // Best section, plus a little for every other matching one
+          score: list[0].score + list.slice(1).reduce((sum, { score }) => sum + score * 0.1, 0),
+          titleHighlights: highlightRanges(project.title, words),
+          hits: list
+            .filter(({ section }) => section.id !== 'root' || section.text)
+            .slice(0, MAX_HITS)
+            .map(({ section }) => ({
+              sectionId: section.id,
+              heading: section.heading,
+              ...makeSnippet(section.text, words),
+            })),
+        };
+      })
+      .sort((a, b) => b.score - a.score || b.project.lastModified - a.project.lastModified)
+      .slice(0, MAX_RESULTS);
+  };
+
+  return { sync, search };
+}
@@ -0,0 +1,353 @@
+import { HeadingNode, getSectionBody, parseMarkdownHeadings } from './markdownParser';
+
+export type DiffOp =
+  | { type: 'equal'; oldIndex: number; newIndex: number }
+  | { type: 'delete'; oldIndex: number }
+  | { type: 'insert'; newIndex: number };
+
+// Past this many edits the shortest script is not worth searching for
+const MAX_EDIT_DISTANCE = 2000;
+
+// Myers' O(ND) diff. Common prefix and suffix are matched up front, which is
+// where most of two versions of a document agree.
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])) suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i++) ops.push({ type: 'equal', oldIndex: i, newIndex: i });
+  ops.push(...diffMiddle(n, m, (x, y) => equals(a[prefix + x], b[prefix + y]), MAX_EDIT_DISTANCE)
+    .map(op => shiftOp(op, prefix)));
+  for (let i = 0; i < suffix; i++) ops.push({ type: 'equal', oldIndex: a.length - suffix + i, newIndex: b.length - suffix + i });
+  return ops;
+}
+
+function shiftOp(op: DiffOp, by: number): DiffOp {
+  if (op.type === 'equal') return { type: 'equal', oldIndex: op.oldIndex + by, newIndex: op.newIndex + by };
+  if (op.type === 'delete') return { type: 'delete', oldIndex: op.oldIndex + by };
+  return { type: 'insert', newIndex: op.newIndex + by };
+}
+
+function diffMiddle(n: number, m: number, equals: (x: number, y: number) => boolean, maxD: number): DiffOp[] {
+  const replaceAll = (): DiffOp[] => [
+    ...Array.from({ length: n }, (_, i): DiffOp => ({ type: 'delete', oldIndex: i })),
+    ...Array.from({ length: m }, (_, i): DiffOp => ({ type: 'insert', newIndex: i })),
+  ];
+  if (n === 0 || m === 0) return replaceAll();
+
+  const limit = Math.min(n + m, maxD);
+  // v[k] is the furthest x reached on diagonal k; the trace keeps the part
+  // of v each step read from (diagonals -d-1..d+1) for the backtrack
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(x, y)) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return replaceAll();
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: 'equal', oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? { type: 'insert', newIndex: y - 1 } : { type: 'delete', oldIndex: x - 1 });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
+
+// --- Markdown lines ---
+
+export interface LineChange {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+  // 1-based line numbers in the old and the new text
+  oldLine?: number;
+  newLine?: number;
+}
+
+export const splitLines = (text: string) => text.replace(/\r\n?/g, '\n').split('\n');
+
+export function diffLines(oldText: string, newText: string): LineChange[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  return diffSequences(oldLines, newLines).map(op => {
+    if (op.type === 'equal') return { type: 'equal', text: newLines[op.newIndex], oldLine: op.oldIndex + 1, newLine: op.newIndex + 1 };
+    if (op.type === 'delete') return { type: 'delete', text: oldLines[op.oldIndex], oldLine: op.oldIndex + 1 };
+    return { type: 'insert', text: newLines[op.newIndex], newLine: op.newIndex + 1 };
+  });
+}
+
+export interface SideBySideRow {
+  left: LineChange | null;
+  right: LineChange | null;
+}
+
+// Removed and added lines between two unchanged ones face each other
+export function toSideBySide(changes: LineChange[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let deleted: LineChange[] = [];
+  let inserted: LineChange[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+      rows.push({ left: deleted[i] ?? null, right: inserted[i] ?? null });
+    }
+    deleted = [];
+    inserted = [];
+  };
+  changes.forEach(change => {
+    if (change.type === 'delete') {
+      deleted.push(change);
+    } else if (change.type === 'insert') {
+      inserted.push(change);
+    } else {
+      flush();
+      rows.push({ left: change, right: change });
+    }
+  });
+  flush();
+  return rows;
+}
+
+export interface WordPart {
+  text: string;
+  changed: boolean;
+}
+
+const WORD = /\s+|[\p{L}\p{N}_]+|./gu;
+
+// Changed words of a line that was edited rather than replaced
+export function diffWords(oldText: string, newText: string): { old: WordPart[]; new: WordPart[] } {
+  const oldWords = oldText.match(WORD) ?? [];
+  const newWords = newText.match(WORD) ?? [];
+  const result: { old: WordPart[]; new: WordPart[] } = { old: [], new: [] };
+  const push = (parts: WordPart[], text: string, changed: boolean) => {
+    const last = parts[parts.length - 1];
+    if (last && last.changed === changed) {
+      last.text += text;
+    } else {
+      parts.push({ text, changed });
+    }
+  };
+  diffSequences(oldWords, newWords).forEach(op => {
+    if (op.type === 'equal') {
+      push(result.old, oldWords[op.oldIndex], false);
+      push(result.new, newWords[op.newIndex], false);
+    } else if (op.type === 'delete') {
+      push(result.old, oldWords[op.oldIndex], true);
+    } else {
+      push(result.new, newWords[op.newIndex], true);
+    }
+  });
+  return result;
+}
+
+export interface Fold<T> {
+  fold: true;
+  rows: T[];
+}
+
+// Long unchanged runs are folded, keeping `context` rows around each change
+export function foldUnchanged<T>(rows: T[], isChanged: (row: T) => boolean, context = 3): (T | Fold<T>)[] {
+  const keep = rows.map(isChanged);
+  rows.forEach((row, i) => {
+    if (!isChanged(row)) return;
+    for (let j = Math.max(0, i - context); j <= Math.min(rows.length - 1, i + context); j++) keep[j] = true;
+  });
+
+  const result: (T | Fold<T>)[] = [];
+  let run: T[] = [];
+  const flush = () => {
+    // Folding a row or two saves nothing
+    if (run.length > 2) {
+      result.push({ fold: true, rows: run });
+    } else {
+      result.push(...run);
+    }
+    run = [];
+  };
+  rows.forEach((row, i) => {
+    if (keep[i]) {
+      flush();
+      result.push(row);
+    } else {
+      run.push(row);
+    }
+  });
+  flush();
+  return result;
+}
+
+export const isFold = <T>(item: T | Fold<T>): item is Fold<T> =>
+  typeof item === 'object' && item !== null && (item as Fold<T>).fold === true;
+
+// --- Heading tree ---
+
+export interface SectionDiffNode {
+  id: string;
+  text: string;
+  level: number;
+  status: 'added' | 'removed' | 'unchanged';
+  // Under another parent or in another order among its siblings
+  moved: boolean;
+  // Heading text before a rename
+  previousText?: string;
+  // The section's own text changed, subsections aside
+  modified: boolean;
+  children: SectionDiffNode[];
+}
+
+export interface SectionDiffSummary {
+  added: number;
+  removed: number;
+  moved: number;
+  renamed: number;
+  modified: number;
+}
+
+const flatten = (node: HeadingNode): HeadingNode[] => node.children.flatMap(child => [child, ...flatten(child)]);
+
+// Sections are matched by heading id, then by identical text among the rest
+function matchSections(oldRoot: HeadingNode, newRoot: HeadingNode): Map<HeadingNode, HeadingNode> {
+  const oldNodes = flatten(oldRoot);
+  const newNodes = flatten(newRoot);
+  const matches = new Map<HeadingNode, HeadingNode>([[oldRoot, newRoot]]);
+  const taken = new Set<HeadingNode>();
+
+  const newById = new Map(newNodes.map(node => [node.id, node]));
+  oldNodes.forEach(oldNode => {
+    const newNode = newById.get(oldNode.id);
+    if (newNode) {
+      matches.set(oldNode, newNode);
+      taken.add(newNode);
+    }
+  });
+  oldNodes.filter(oldNode => !matches.has(oldNode)).forEach(oldNode => {
+    const newNode = newNodes.find(candidate => !taken.has(candidate) && candidate.text === oldNode.text);
+    if (newNode) {
+      matches.set(oldNode, newNode);
+      taken.add(newNode);
+    }
+  });
+  return matches;
+}
+
+export function diffSections(oldMarkdown: string, newMarkdown: string): { root: SectionDiffNode; summary: SectionDiffSummary } {
+  const oldRoot = parseMarkdownHeadings(oldMarkdown);
+  const newRoot = parseMarkdownHeadings(newMarkdown);
+  const matches = matchSections(oldRoot, newRoot);
+  const oldOf = new Map([...matches].map(([oldNode, newNode]) => [newNode, oldNode]));
+  const oldParents = new Map<HeadingNode, HeadingNode>();
+  [oldRoot, ...flatten(oldRoot)].forEach(node => node.children.forEach(child => oldParents.set(child, node)));
+
+  const summary: SectionDiffSummary = { added: 0, removed: 0, moved: 0, renamed: 0, modified: 0 };
+
+  const removedNode = (oldNode: HeadingNode): SectionDiffNode => {
+    summary.removed++;
+    return {
+      id: oldNode.id,
+      text: oldNode.text,
+      level: oldNode.level,
+      status: 'removed',
+      moved: false,
+      modified: false,
+      // Subsections that survived elsewhere show up there
+      children: oldNode.children.filter(child => !matches.has(child)).map(removedNode),
+    };
+  };
+
+  const build = (newNode: HeadingNode): SectionDiffNode[] => {
+    // Children that kept their parent, in the old order, tell which ones moved
+    const stayed = newNode.children.filter(child => {
+      const oldChild = oldOf.get(child);
+      return oldChild && oldParents.get(oldChild) === oldOf.get(newNode);
+    });
+    const oldOrder = stayed.map(child => oldOf.get(child)!).sort((a, b) => a.start - b.start);
+    const inOrder = new Set<HeadingNode>();
+    diffSequences(oldOrder, stayed.map(child => oldOf.get(child)!)).forEach(op => {
+      if (op.type === 'equal') inOrder.add(oldOrder[op.oldIndex]);
+    });
+
+    const children: SectionDiffNode[] = newNode.children.map(child => {
+      const oldChild = oldOf.get(child);
+      if (!oldChild) {
+        summary.added++;
+        return { id: child.id, text: child.text, level: child.level, status: 'added', moved: false, modified: false, children: build(child) };
+      }
+      const moved = !stayed.includes(child) || !inOrder.has(oldChild);
+      const renamed = oldChild.text !== child.text;
+      const modified = getSectionBody(oldMarkdown, oldChild) !== getSectionBody(newMarkdown, child);
+      if (moved) summary.moved++;
+      if (renamed) summary.renamed++;
+      if (modified) summary.modified++;
+      return {
+        id: child.id,
+        text: child.text,
+        level: child.level,
+        status: 'unchanged',
+        moved,
+        ...(renamed ? { previousText: oldChild.text } : {}),
+        modified,
+        children: build(child),
+      };
+    });
+
+    // Removed subsections go back where they were, after their old previous sibling
+    const oldNode = oldOf.get(newNode);
+    if (oldNode) {
+      let insertAt = 0;
+      oldNode.children.forEach(oldChild => {
+        const newChild = matches.get(oldChild);
+        if (newChild) {
+          const index = children.findIndex(node => node.id === newChild.id);
+          if (index !== -1) insertAt = index + 1;
+        } else {
+          children.splice(insertAt++, 0, removedNode(oldChild));
+        }
+      });
+    }
+    return children;
+  };
+
+  const root: SectionDiffNode = {
+    id: newRoot.id,
+    text: newRoot.text,
+    level: 0,
+    status: 'unchanged',
+    moved: false,
+    modified: getSectionBody(oldMarkdown, oldRoot) !== getSectionBody(newMarkdown, newRoot),
+    children: build(newRoot),
+  };
+  return { root, summary };
+}
@@ -0,0 +1,34 @@
+import { ProjectVersion } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// Automatic snapshots younger than `maxAge` keep the newest one per `bucket`:
+// all of the last hour, then hourly for a day, daily for a month, weekly after that
+const RETENTION_TIERS: { maxAge: number; bucket: number }[] = [
+  { maxAge: HOUR_MS, bucket: 0 },
+  { maxAge: DAY_MS, bucket: HOUR_MS },
+  { maxAge: 30 * DAY_MS, bucket: DAY_MS },
+  { maxAge: Infinity, bucket: WEEK_MS },
+];
+
+export const isAutoVersion = (version: ProjectVersion) => version.kind === 'auto';
+
+// Automatic snapshots the retention policy drops. Manual versions are never thinned.
+export function findThinnedVersions(versions: ProjectVersion[], now = Date.now()): ProjectVersion[] {
+  const seen = new Set<string>();
+  return versions
+    .filter(isAutoVersion)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .filter(version => {
+      const age = now - version.timestamp;
+      const tier = RETENTION_TIERS.findIndex(({ maxAge }) => age < maxAge);
+      const { bucket } = RETENTION_TIERS[tier];
+      if (bucket === 0) return false;
+      const key = `${tier}:${Math.floor(version.timestamp / bucket)}`;
+      if (seen.has(key)) return true;
+      seen.add(key);
+      return false;
+    });
+}
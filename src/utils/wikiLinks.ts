@@ -0,0 +1,194 @@
+import { Project } from '../types';
+import { HeadingNode, findSectionAt, parseMarkdownHeadings } from './markdownParser';
+
+// Links between projects: `[[Project]]`, `[[Project#Heading]]`, `[[#Heading]]`
+// for the current project, each optionally with a `|label`
+export interface WikiLinkAttributes {
+  target: string;
+  heading: string | null;
+  label: string | null;
+}
+
+export interface WikiLinkSuggestion {
+  attributes: WikiLinkAttributes;
+  title: string;
+  detail: string;
+}
+
+export interface ProjectLink {
+  id: string;
+  source: string;
+  target: string;
+  // Number of `[[...]]` links from source to target
+  count: number;
+}
+
+export interface Backlink {
+  project: Project;
+  sections: { id: string; text: string; snippet: string }[];
+}
+
+// Also matches links that older saves escaped as `\[\[...\]\]`
+const WIKI_LINK_SOURCE = /\\?\[\\?\[((?:\\.|[^[\]\n])+?)\\?\]\\?\]/g;
+
+const MAX_SUGGESTIONS = 8;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const unescape = (text: string) => text.replace(/\\(.)/g, '$1');
+
+function flattenHeadings(node: HeadingNode, out: HeadingNode[] = []) {
+  node.children.forEach(child => {
+    out.push(child);
+    flattenHeadings(child, out);
+  });
+  return out;
+}
+
+export function parseWikiLink(source: string): WikiLinkAttributes | null {
+  const [reference, ...label] = source.split('|');
+  const hash = reference.indexOf('#');
+  const target = (hash === -1 ? reference : reference.slice(0, hash)).trim();
+  const heading = hash === -1 ? '' : reference.slice(hash + 1).trim();
+  if (!target && !heading) return null;
+  return { target, heading: heading || null, label: label.join('|').trim() || null };
+}
+
+export function formatWikiLink({ target, heading, label }: WikiLinkAttributes): string {
+  return `[[${target}${heading ? `#${heading}` : ''}${label ? `|${label}` : ''}]]`;
+}
+
+// Text shown in the editor in place of the raw syntax
+export function wikiLinkText({ target, heading, label }: WikiLinkAttributes): string {
+  if (label) return label;
+  if (!heading) return target;
+  return target ? `${target} › ${heading}` : heading;
+}
+
+// A heading by its label, or by its id for links written as `#h-x7k2qa`
+export function findHeadingByText(root: HeadingNode, text: string): HeadingNode | null {
+  const headings = flattenHeadings(root);
+  return headings.find(node => normalize(node.text) === normalize(text))
+    ?? headings.find(node => node.id === text)
+    ?? null;
+}
+
+const findProjectByTitle = (projects: Project[], title: string) =>
+  projects.find(project => normalize(project.title) === normalize(title));
+
+// `[[Name]]` is a project when one has that title, otherwise a heading of the
+// current project, as in the mindmap's "see also" edges
+export function resolveWikiLink(
+  link: WikiLinkAttributes,
+  projects: Project[],
+  current: Project,
+): { projectId: string; headingId?: string } | null {
+  const inCurrent = !link.target || normalize(link.target) === normalize(current.title);
+  const project = inCurrent ? current : findProjectByTitle(projects, link.target);
+
+  if (project) {
+    if (!link.heading) return { projectId: project.id };
+    const heading = findHeadingByText(parseMarkdownHeadings(project.content), link.heading);
+    return { projectId: project.id, headingId: heading?.id };
+  }
+
+  if (!link.heading) {
+    const heading = findHeadingByText(parseMarkdownHeadings(current.content), link.target);
+    if (heading) return { projectId: current.id, headingId: heading.id };
+  }
+  return null;
+}
+
+// Autocomplete for `[[query`: project titles, or the headings of one project
+// once the query has a `#`
+export function suggestWikiLinks(query: string, projects: Project[], current: Project): WikiLinkSuggestion[] {
+  const hash = query.indexOf('#');
+
+  if (hash === -1) {
+    const needle = normalize(query);
+    return projects
+      .filter(project => project.id !== current.id && project.title && normalize(project.title).includes(needle))
+      .sort((a, b) => Number(normalize(b.title).startsWith(needle)) - Number(normalize(a.title).startsWith(needle)))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(project => ({
+        attributes: { target: project.title, heading: null, label: null },
+        title: project.title,
+        detail: 'Проект',
+      }));
+  }
+
+  const target = query.slice(0, hash).trim();
+  const project = target ? findProjectByTitle(projects, target) : current;
+  if (!project) return [];
+
+  const needle = normalize(query.slice(hash + 1));
+  return flattenHeadings(parseMarkdownHeadings(project.content))
+    .filter(heading => normalize(heading.text).includes(needle))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(heading => ({
+      attributes: { target: target ? project.title : '', heading: heading.text, label: null },
+      title: heading.text,
+      detail: project.title || 'Без названия',
+    }));
+}
+
+// Every other project linking to `current`, grouped by the sections holding the links
+export function findBacklinks(projects: Project[], current: Pick<Project, 'id' | 'title'>): Backlink[] {
+  const title = normalize(current.title);
+  if (!title) return [];
+
+  return projects
+    .filter(project => project.id !== current.id && project.content)
+    .map(project => {
+      const sections = new Map<string, Backlink['sections'][number]>();
+      let root: HeadingNode | null = null;
+
+      for (const match of project.content.matchAll(WIKI_LINK_SOURCE)) {
+        const link = parseWikiLink(unescape(match[1]));
+        if (!link || normalize(link.target) !== title) continue;
+
+        root ??= parseMarkdownHeadings(project.content);
+        const section = findSectionAt(root, match.index!);
+        if (sections.has(section.id)) continue;
+
+        const lineStart = project.content.lastIndexOf('\n', match.index!) + 1;
+        const lineEnd = project.content.indexOf('\n', match.index!);
+        const line = project.content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim();
+        sections.set(section.id, {
+          id: section.id,
+          text: section.id === 'root' ? project.title : section.text,
+          snippet: line.length > 140 ? line.slice(0, 140) + '…' : line,
+        });
+      }
+
+      return { project, sections: [...sections.values()] };
+    })
+    .filter(backlink => backlink.sections.length > 0);
+}
+
+// Project-level link graph: one edge per linking pair
+export function findProjectLinks(projects: Project[]): ProjectLink[] {
+  const byTitle = new Map<string, Project>();
+  projects.forEach(project => {
+    const title = normalize(project.title);
+    if (title && !byTitle.has(title)) byTitle.set(title, project);
+  });
+
+  const links = new Map<string, ProjectLink>();
+  projects.forEach(project => {
+    for (const match of (project.content ?? '').matchAll(WIKI_LINK_SOURCE)) {
+      const link = parseWikiLink(unescape(match[1]));
+      const target = link?.target && byTitle.get(normalize(link.target));
+      if (!target || target.id === project.id) continue;
+
+      const id = `${project.id}->${target.id}`;
+      const existing = links.get(id);
+      if (existing) {
+        existing.count++;
+      } else {
+        links.set(id, { id, source: project.id, target: target.id, count: 1 });
+      }
+    }
+  });
+  return [...links.values()];
+}